@@ -0,0 +1,92 @@
+import { EmbedBuilder, SlashCommandBuilder } from 'discord.js';
+import { setReceiveAddress, clearReceiveAddress, getReceiveAddresses } from '../utils/receiveAddresses';
+import { claimEscrows } from '../utils/tipping';
+import { validateAddress } from '../utils/inputValidation';
+import { NETWORK_CHOICES, parseNetworkArgument, getExplorerAddressUrl } from '../utils/networkConfig';
+import { Network } from '../utils/userSettings';
+import { CommandContext } from '../utils/commandContext';
+import { Logger } from '../utils/logger';
+import { formatEscrowReleases } from './tip';
+import { BotCommand } from './registry';
+
+const handleAddressSet = async (ctx: CommandContext) => {
+    const address = ctx.getString('address');
+    if (!address) {
+        await ctx.reply({ content: 'Please provide a Kaspa address. Usage: `/address set <ADDRESS> [NETWORK]`', ephemeral: true });
+        return;
+    }
+    const network = parseNetworkArgument(ctx.getString('network'));
+    validateAddress(address, network);
+
+    await ctx.defer(true);
+    await setReceiveAddress(ctx.userId, network, address);
+    Logger.info(`User ${ctx.userId} registered a receive address on ${network}`);
+
+    const released = formatEscrowReleases(await claimEscrows(ctx.userId, network, address), 'claimed');
+    await ctx.reply({
+        content: [`Tips and rain on ${network} will now be paid to ${address}.`, ...released].join('\n').slice(0, 2000),
+        ephemeral: true
+    });
+};
+
+const handleAddressRemove = async (ctx: CommandContext) => {
+    const network = parseNetworkArgument(ctx.getString('network'));
+    await clearReceiveAddress(ctx.userId, network);
+    await ctx.reply({ content: `Your ${network} receive address has been removed. Tips to you on ${network} will be held in escrow again.`, ephemeral: true });
+};
+
+const handleAddressShow = async (ctx: CommandContext) => {
+    const addresses = Object.entries(await getReceiveAddresses(ctx.userId)) as [Network, string][];
+    if (addresses.length === 0) {
+        await ctx.reply({ content: 'You have not registered a receive address. Use `/address set <ADDRESS> [NETWORK]` to receive tips.', ephemeral: true });
+        return;
+    }
+
+    const embed = new EmbedBuilder()
+        .setColor(0x0099FF)
+        .setTitle('Your Receive Addresses')
+        .addFields(addresses.map(([network, address]) => ({
+            name: network,
+            value: `[${address}](${getExplorerAddressUrl(network, address)})`
+        })));
+    await ctx.reply({ embeds: [embed], ephemeral: true });
+};
+
+export const handleAddressCommand = async (ctx: CommandContext) => {
+    switch (ctx.subcommand) {
+        case 'set':
+            return handleAddressSet(ctx);
+        case 'remove':
+            return handleAddressRemove(ctx);
+        default:
+            return handleAddressShow(ctx);
+    }
+};
+
+export const addressCommand: BotCommand = {
+    data: new SlashCommandBuilder()
+        .setName('address')
+        .setDescription('Manage the address you receive tips and rain on')
+        .addSubcommand(subcommand => subcommand
+            .setName('set')
+            .setDescription('Register your receive address and claim tips held for you')
+            .addStringOption(option => option
+                .setName('address')
+                .setDescription('Kaspa address to receive on')
+                .setRequired(true))
+            .addStringOption(option => option
+                .setName('network')
+                .setDescription('Network of the address (defaults to Mainnet)')
+                .addChoices(...NETWORK_CHOICES)))
+        .addSubcommand(subcommand => subcommand
+            .setName('show')
+            .setDescription('Show your registered receive addresses'))
+        .addSubcommand(subcommand => subcommand
+            .setName('remove')
+            .setDescription('Remove your receive address for a network')
+            .addStringOption(option => option
+                .setName('network')
+                .setDescription('Network to remove (defaults to Mainnet)')
+                .addChoices(...NETWORK_CHOICES))),
+    execute: handleAddressCommand,
+};
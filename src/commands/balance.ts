@@ -1,7 +1,13 @@
-import { Message, EmbedBuilder } from 'discord.js';
+import { EmbedBuilder, SlashCommandBuilder } from 'discord.js';
 import axios from 'axios';
 import { Logger } from '../utils/logger';
-import { handleError, AppError } from '../utils/errorHandler';
+import { AppError } from '../utils/errorHandler';
+import { CommandContext } from '../utils/commandContext';
+import { Network } from '../utils/userSettings';
+import { NETWORK_CHOICES, getApiBaseUrl, parseNetworkArgument } from '../utils/networkConfig';
+import { validateAddress } from '../utils/inputValidation';
+import { formatAmount } from '../utils/amount';
+import { BotCommand } from './registry';
 
 interface TokenBalance {
     tick: string;
@@ -9,29 +15,8 @@ interface TokenBalance {
     dec: string;
 }
 
-function formatBalance(balance: string, decimals: number): string {
-    const balanceBigInt = BigInt(balance);
-    const divisor = BigInt(10 ** decimals);
-    const integerPart = balanceBigInt / divisor;
-    const fractionalPart = balanceBigInt % divisor;
-
-    let formattedBalance = integerPart.toLocaleString('en-US');
-    if (fractionalPart > 0) {
-        const fractionalStr = fractionalPart.toString().padStart(decimals, '0');
-        const trimmedFractionalStr = fractionalStr.replace(/0+$/, '');
-        if (trimmedFractionalStr.length > 0) {
-            formattedBalance += '.' + trimmedFractionalStr;
-        }
-    }
-
-    return formattedBalance;
-}
-
-async function fetchKRC20Balances(address: string): Promise<TokenBalance[]> {
-    const apiBaseUrl = process.env.MAINNET_API_BASE_URL;
-    if (!apiBaseUrl) {
-        throw new AppError('Invalid Configuration', 'API base URL not found for Mainnet', 'INVALID_CONFIGURATION');
-    }
+async function fetchKRC20Balances(address: string, network: Network): Promise<TokenBalance[]> {
+    const apiBaseUrl = getApiBaseUrl(network);
 
     const url = `${apiBaseUrl}/address/${address}/tokenlist`;
     try {
@@ -43,33 +28,47 @@ async function fetchKRC20Balances(address: string): Promise<TokenBalance[]> {
     }
 }
 
-export const handleBalanceCommand = async (message: Message, args: string[]) => {
-    if (args.length !== 1) {
-        await message.reply('Please provide a valid wallet address. Usage: !balance <WALLET_ADDRESS>');
+export const handleBalanceCommand = async (ctx: CommandContext) => {
+    const address = ctx.getString('address');
+    if (!address) {
+        await ctx.reply({ content: 'Please provide a valid wallet address. Usage: !balance <WALLET_ADDRESS> [MAIN|TN10|TN11]', ephemeral: true });
         return;
     }
 
-    const address = args[0];
+    const network = parseNetworkArgument(ctx.getString('network'));
+    validateAddress(address, network);
 
-    try {
-        Logger.info(`Balance command triggered for address: ${address} on Mainnet`);
-        const balances = await fetchKRC20Balances(address);
+    Logger.info(`Balance command triggered for address: ${address} on ${network}`);
+    await ctx.defer(true);
+    const balances = await fetchKRC20Balances(address, network);
 
-        const embed = new EmbedBuilder()
-            .setColor(0x0099FF)
-            .setTitle('KRC20 Balances')
-            .setDescription(`${address}`)
-            .setTimestamp();
+    const embed = new EmbedBuilder()
+        .setColor(0x0099FF)
+        .setTitle(network === 'Mainnet' ? 'KRC20 Balances' : `KRC20 Balances (${network})`)
+        .setDescription(`${address}`)
+        .setTimestamp();
 
-        balances.forEach((token) => {
-            const formattedBalance = formatBalance(token.balance, parseInt(token.dec));
-            embed.addFields({ name: token.tick, value: formattedBalance, inline: true });
-        });
+    balances.forEach((token) => {
+        const formattedBalance = formatAmount(token.balance, token.dec);
+        embed.addFields({ name: token.tick, value: formattedBalance, inline: true });
+    });
 
-        embed.setFooter({ text: 'Built with ❤️ by the Nacho the 𐤊at Community', iconURL: 'https://media.discordapp.net/attachments/1262092990273294458/1278406148235460709/NACHO_best_final.png?ex=66d0b001&is=66cf5e81&hm=0b93b66600c0b2f4b1146bedca819ef85c198f4a5dc9999ec1842d22cecf0c94&=&format=webp&quality=lossless' });
+    embed.setFooter({ text: 'Built with ❤️ by the Nacho the 𐤊at Community', iconURL: 'https://media.discordapp.net/attachments/1262092990273294458/1278406148235460709/NACHO_best_final.png?ex=66d0b001&is=66cf5e81&hm=0b93b66600c0b2f4b1146bedca819ef85c198f4a5dc9999ec1842d22cecf0c94&=&format=webp&quality=lossless' });
 
-        await message.reply({ embeds: [embed] });
-    } catch (error) {
-        await handleError(error, message.channel, 'handleBalanceCommand');
-    }
-};
\ No newline at end of file
+    await ctx.reply({ embeds: [embed], ephemeral: true });
+};
+
+export const balanceCommand: BotCommand = {
+    data: new SlashCommandBuilder()
+        .setName('balance')
+        .setDescription('Check KRC20 token balances for a wallet')
+        .addStringOption(option => option
+            .setName('address')
+            .setDescription('Kaspa wallet address')
+            .setRequired(true))
+        .addStringOption(option => option
+            .setName('network')
+            .setDescription('Network to query (defaults to Mainnet)')
+            .addChoices(...NETWORK_CHOICES)),
+    execute: handleBalanceCommand,
+};
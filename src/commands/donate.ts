@@ -1,8 +1,10 @@
-import { Message } from 'discord.js';
+import { SlashCommandBuilder } from 'discord.js';
 import fs from 'fs';
 import { EmbedBuilder } from '@discordjs/builders';
+import { CommandContext } from '../utils/commandContext';
+import { BotCommand } from './registry';
 
-export const handleDonateCommand = (message: Message) => {
+export const handleDonateCommand = async (ctx: CommandContext) => {
   const templateContent = fs.readFileSync('message_template.json', 'utf8');
   const template = JSON.parse(templateContent);
 
@@ -14,5 +16,12 @@ export const handleDonateCommand = (message: Message) => {
     .addFields({ name: 'Donation Address', value: 'kaspa:qrt3lf6jejjdzwtnvlr3z35w7j6q66gt49a7grdwsq98nmlg5uz97whuf8qfr' })
     .setDescription('[Check Kaspa Donation Wallet Balance](https://kas.fyi/address/kaspa:qrt3lf6jejjdzwtnvlr3z35w7j6q66gt49a7grdwsq98nmlg5uz97whuf8qfr)');
 
-  message.channel.send({ embeds: [embed] });
+  await ctx.reply({ embeds: [embed] });
+};
+
+export const donateCommand: BotCommand = {
+  data: new SlashCommandBuilder()
+    .setName('donate')
+    .setDescription('View donation information for the Nacho the 𐤊at Community'),
+  execute: handleDonateCommand,
 };
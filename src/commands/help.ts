@@ -1,16 +1,33 @@
-import { Message, EmbedBuilder } from 'discord.js';
+import { EmbedBuilder, SlashCommandBuilder } from 'discord.js';
+import { CommandContext } from '../utils/commandContext';
+import { BotCommand } from './registry';
 
-export const handleHelpCommand = (message: Message) => {
+export const handleHelpCommand = async (ctx: CommandContext) => {
   const embed = new EmbedBuilder()
     .setColor(0x0099FF)
     .setTitle('Kat Bot - Command Guide')
-    .setDescription('Here are the available commands:')
+    .setDescription('Here are the available commands. Each one also works with the `!` prefix, e.g. `!status NACHO`:')
     .addFields(
-      { name: '!status <TICKER>', value: 'Get token info for a specific ticker on Mainnet.' },
-      { name: '!balance <WALLET_ADDRESS>', value: 'Check KRC20 token balances for a wallet on Mainnet.' },
-      { name: '!links', value: 'Get official Nacho the 𐤊at community links.' },
-      { name: '!donate', value: 'View donation information for the Nacho the 𐤊at Community.' },
-      { name: '!helpmenu', value: 'Display this help menu.' }
+      { name: '/status <TICKER> [NETWORK]', value: 'Get token info for a specific ticker. NETWORK is MAIN (default), TN10 or TN11.' },
+      { name: '/balance <WALLET_ADDRESS> [NETWORK]', value: 'Check KRC20 token balances for a wallet. NETWORK is MAIN (default), TN10 or TN11.' },
+      { name: '/links', value: 'Get official Nacho the 𐤊at community links.' },
+      { name: '/wallet', value: 'Open a private Kat Wallet session in your DMs (sending any DM to the bot works too).' },
+      { name: '/wallet unlock | lock | save', value: 'Unlock a wallet saved in your encrypted vault, lock it again, or save the open wallet under a passphrase.' },
+      { name: '/wallet change-passphrase | delete-vault', value: 'Change your vault passphrase or permanently delete your vault.' },
+      { name: '/recover', value: 'List and reclaim KRC20 commits whose reveal failed, returning the locked KAS to your wallet.' },
+      { name: '/market offers [TICKER] [NETWORK]', value: 'Browse KRC20 tokens listed for sale by other users.' },
+      { name: '/market list | buy | cancel', value: 'List tokens from your open wallet for a KAS price, buy an offer by its ID, or cancel one of your own offers.' },
+      { name: '!tip @user <AMOUNT> <KAS|TICKER>', value: 'Tip a server member from your open wallet. Members without a registered address get the tip held in escrow until they register one.' },
+      { name: '!rain <AMOUNT> <KAS|TICKER> <MEMBERS> [@role] [MIN_AGE_DAYS]', value: 'Split an amount between up to MEMBERS recently active members with a registered address, optionally only those with a role.' },
+      { name: '/address set | show | remove', value: 'Register the address you receive tips on, per network. Registering claims any tips held for you.' },
+      { name: '/claim', value: 'Claim tips held for you, and take back your own tips that went unclaimed.' },
+      { name: '/schedule send <ADDRESS> <AMOUNT> [at] [every_days] [cron]', value: 'Schedule a one-off or recurring KAS payment from your vault wallet. Payments run while the vault is unlocked and DM you a receipt.' },
+      { name: '/schedule list | pause | resume | cancel', value: 'Manage your scheduled payments.' },
+      { name: '/notify on [MIN_AMOUNT] | off | status', value: 'Get a DM when KAS arrives in your open or vaulted wallet, ignoring payments below MIN_AMOUNT (1 KAS by default).' },
+      { name: '/limits show | set [DAILY] [PER_TX] [STEP_UP]', value: 'View or set spending limits in KAS (`off` removes one). Sends above STEP_UP need your PIN, or the amount typed again.' },
+      { name: '/limits allowlist <on|off|add|remove> [ADDRESS] | pin', value: 'Restrict sends to trusted addresses, or set a spending PIN that also protects your limits.' },
+      { name: '/donate', value: 'View donation information for the Nacho the 𐤊at Community.' },
+      { name: '/helpmenu', value: 'Display this help menu.' }
     )
     .setFooter({ 
       text: 'Built with ❤️ by the Nacho the 𐤊at Community', 
@@ -18,5 +35,12 @@ export const handleHelpCommand = (message: Message) => {
     })
     .setTimestamp();
 
-  message.channel.send({ embeds: [embed] });
+  await ctx.reply({ embeds: [embed], ephemeral: true });
+};
+
+export const helpCommand: BotCommand = {
+  data: new SlashCommandBuilder()
+    .setName('helpmenu')
+    .setDescription('Display the Kat Bot command guide'),
+  execute: handleHelpCommand,
 };
\ No newline at end of file
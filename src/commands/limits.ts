@@ -0,0 +1,222 @@
+import { EmbedBuilder, SlashCommandBuilder } from 'discord.js';
+import { sompiToKaspaString } from '../../wasm/kaspa/kaspa';
+import { getSpendingPolicy, updateSpendingPolicy, getRemainingDailyLimit, isLoosening, hashPin, validatePin, verifyPin, SpendingPolicy, MAX_ALLOWLIST_SIZE } from '../utils/spendingLimits';
+import { validateAddress } from '../utils/inputValidation';
+import { parseTokenAmount, KAS_DECIMALS } from '../utils/amount';
+import { CommandContext } from '../utils/commandContext';
+import { Logger } from '../utils/logger';
+import { AppError } from '../utils/errorHandler';
+import { checkRateLimit, getRateLimitRemainingTime } from '../utils/rateLimit';
+import { openVaultDM, withVaultPrompt, promptPassphrase } from './vault';
+import { BotCommand } from './registry';
+
+type PolicyChange = (policy: SpendingPolicy) => void;
+type LimitKey = 'dailyLimit' | 'perTxLimit' | 'stepUpThreshold';
+
+const formatLimit = (sompi?: string) => sompi === undefined ? 'None' : `${sompiToKaspaString(BigInt(sompi))} KAS`;
+
+// "off" removes a limit; anything else is an amount in KAS
+const parseLimit = (input: string): string | undefined =>
+    input.trim().toLowerCase() === 'off' ? undefined : parseTokenAmount(input, KAS_DECIMALS).toString();
+
+const checkPinRateLimit = (userId: string) => {
+    if (!checkRateLimit(userId, 'spendingPin')) {
+        const remainingTime = getRateLimitRemainingTime(userId, 'spendingPin');
+        throw new AppError(
+            'Rate limit exceeded',
+            `Too many PIN attempts. Please try again in ${Math.ceil(remainingTime / 1000)} seconds.`,
+            'RATE_LIMIT_EXCEEDED'
+        );
+    }
+};
+
+const promptCurrentPin = async (channel: Parameters<typeof promptPassphrase>[0], userId: string, policy: SpendingPolicy, prompt: string) => {
+    checkPinRateLimit(userId);
+    const pin = await promptPassphrase(channel, userId, prompt);
+    if (!await verifyPin(policy, pin.trim())) {
+        throw new AppError('Wrong PIN', 'That spending PIN is not correct. Nothing was changed.', 'INVALID_PIN');
+    }
+};
+
+/**
+ * Tightening always applies at once. Loosening a policy that has a PIN needs
+ * the PIN, which is asked for in DM like a vault passphrase.
+ */
+const applyPolicyChange = async (ctx: CommandContext, change: PolicyChange, summary: string) => {
+    const current = await getSpendingPolicy(ctx.userId);
+    const next: SpendingPolicy = { ...current, allowlist: [...current.allowlist] };
+    change(next);
+
+    if (!current.pin || !isLoosening(current, next)) {
+        await updateSpendingPolicy(ctx.userId, change);
+        Logger.info(`User ${ctx.userId} updated their spending limits`);
+        await ctx.reply({ content: `✅ ${summary}`, ephemeral: true });
+        return;
+    }
+
+    const channel = await openVaultDM(ctx);
+    await withVaultPrompt(channel, ctx.userId, 'applyPolicyChange', async () => {
+        await promptCurrentPin(channel, ctx.userId, current, 'This change loosens your spending limits. Enter your spending PIN to confirm:');
+        await updateSpendingPolicy(ctx.userId, change);
+        Logger.info(`User ${ctx.userId} loosened their spending limits`);
+        await channel.send(`✅ ${summary} For security, please delete your PIN message above.`);
+    });
+};
+
+const handleLimitsShow = async (ctx: CommandContext) => {
+    const policy = await getSpendingPolicy(ctx.userId);
+    const remaining = getRemainingDailyLimit(policy);
+
+    const embed = new EmbedBuilder()
+        .setColor(0x0099FF)
+        .setTitle('Spending Limits')
+        .setDescription('Limits count the KAS leaving your wallet, fees included, and apply to KAS sends, token transfers, mints, deploys and market trades.')
+        .addFields(
+            { name: 'Daily Limit', value: remaining === undefined ? 'None' : `${formatLimit(policy.dailyLimit)} (${formatLimit((remaining > 0n ? remaining : 0n).toString())} left)`, inline: true },
+            { name: 'Per Transaction', value: formatLimit(policy.perTxLimit), inline: true },
+            { name: 'Step-up Above', value: formatLimit(policy.stepUpThreshold), inline: true },
+            { name: 'Second Factor', value: policy.pin ? 'Spending PIN' : 'Typing the amount again', inline: true },
+            { name: 'Allowlist Mode', value: policy.allowlistEnabled ? 'On' : 'Off', inline: true },
+            { name: `Allowlist (${policy.allowlist.length}/${MAX_ALLOWLIST_SIZE})`, value: policy.allowlist.length > 0 ? policy.allowlist.join('\n').slice(0, 1024) : 'Empty' }
+        );
+    await ctx.reply({ embeds: [embed], ephemeral: true });
+};
+
+const handleLimitsSet = async (ctx: CommandContext) => {
+    const daily = ctx.getString('daily');
+    const perTx = ctx.getString('per_tx');
+    const stepUp = ctx.getString('step_up');
+    if (daily === undefined && perTx === undefined && stepUp === undefined) {
+        await ctx.reply({ content: 'Give at least one of `daily`, `per_tx` or `step_up`, as an amount in KAS or `off`.', ephemeral: true });
+        return;
+    }
+
+    const changes: [LimitKey, string, string | undefined][] = [
+        ['dailyLimit', 'daily', daily],
+        ['perTxLimit', 'per transaction', perTx],
+        ['stepUpThreshold', 'step-up above', stepUp]
+    ];
+    const updates = changes
+        .filter(([, , input]) => input !== undefined)
+        .map(([key, label, input]) => ({ key, label, value: parseLimit(input!) }));
+
+    await applyPolicyChange(ctx, policy => {
+        updates.forEach(({ key, value }) => {
+            policy[key] = value;
+        });
+    }, `Spending limits updated: ${updates.map(({ label, value }) => `${label} ${value === undefined ? 'off' : formatLimit(value)}`).join(', ')}.`);
+};
+
+const handleLimitsAllowlist = async (ctx: CommandContext) => {
+    const action = ctx.getString('action');
+    const address = ctx.getString('address')?.trim();
+
+    switch (action) {
+        case 'on':
+            return applyPolicyChange(ctx, policy => { policy.allowlistEnabled = true; },
+                'Allowlist mode is on. KAS sends and token transfers may only go to addresses on your allowlist.');
+        case 'off':
+            return applyPolicyChange(ctx, policy => { policy.allowlistEnabled = false; }, 'Allowlist mode is off.');
+        case 'add':
+        case 'remove': {
+            if (!address) {
+                await ctx.reply({ content: `Please provide a Kaspa address. Usage: \`/limits allowlist ${action} <ADDRESS>\``, ephemeral: true });
+                return;
+            }
+            validateAddress(address);
+            const normalized = address.toLowerCase();
+            return action === 'add'
+                ? applyPolicyChange(ctx, policy => {
+                    policy.allowlist = [...new Set([...policy.allowlist, normalized])];
+                }, `${address} added to your allowlist.`)
+                : applyPolicyChange(ctx, policy => {
+                    policy.allowlist = policy.allowlist.filter(entry => entry !== normalized);
+                }, `${address} removed from your allowlist.`);
+        }
+        default:
+            await ctx.reply({ content: 'Usage: `/limits allowlist <on|off|add|remove> [ADDRESS]`', ephemeral: true });
+    }
+};
+
+const handleLimitsPin = async (ctx: CommandContext) => {
+    const userId = ctx.userId;
+    const current = await getSpendingPolicy(userId);
+
+    const channel = await openVaultDM(ctx);
+    await withVaultPrompt(channel, userId, 'handleLimitsPin', async () => {
+        if (current.pin) {
+            await promptCurrentPin(channel, userId, current, 'Enter your current spending PIN:');
+        }
+
+        const newPin = (await promptPassphrase(channel, userId, 'Enter a new spending PIN (4 to 8 digits), or `off` to remove it:')).trim();
+        if (newPin.toLowerCase() === 'off') {
+            await updateSpendingPolicy(userId, policy => { delete policy.pin; });
+            await channel.send('Your spending PIN has been removed. Sends over your step-up threshold now need the amount typed again.');
+            return;
+        }
+
+        validatePin(newPin);
+        const confirmation = (await promptPassphrase(channel, userId, 'Enter the new PIN again to confirm:')).trim();
+        if (newPin !== confirmation) {
+            throw new AppError('PIN mismatch', 'The PINs did not match. Nothing was changed.', 'PIN_MISMATCH');
+        }
+        const pin = await hashPin(newPin);
+        await updateSpendingPolicy(userId, policy => { policy.pin = pin; });
+        Logger.info(`User ${userId} set a spending PIN`);
+        await channel.send('🔐 Spending PIN set. It is needed for sends over your step-up threshold and to loosen your limits. For security, please delete your PIN messages above.');
+    });
+};
+
+export const handleLimitsCommand = async (ctx: CommandContext) => {
+    switch (ctx.subcommand) {
+        case 'set':
+            return handleLimitsSet(ctx);
+        case 'allowlist':
+            return handleLimitsAllowlist(ctx);
+        case 'pin':
+            return handleLimitsPin(ctx);
+        default:
+            return handleLimitsShow(ctx);
+    }
+};
+
+export const limitsCommand: BotCommand = {
+    data: new SlashCommandBuilder()
+        .setName('limits')
+        .setDescription('Spending limits, address allowlist and PIN for your wallets')
+        .addSubcommand(subcommand => subcommand
+            .setName('show')
+            .setDescription('Show your spending limits'))
+        .addSubcommand(subcommand => subcommand
+            .setName('set')
+            .setDescription('Set limits in KAS, or "off" to remove one')
+            .addStringOption(option => option
+                .setName('daily')
+                .setDescription('Most KAS that may leave your wallets in 24 hours'))
+            .addStringOption(option => option
+                .setName('per_tx')
+                .setDescription('Most KAS a single send, transfer, mint, deploy or trade may cost'))
+            .addStringOption(option => option
+                .setName('step_up')
+                .setDescription('Sends above this need your PIN or the amount typed again')))
+        .addSubcommand(subcommand => subcommand
+            .setName('allowlist')
+            .setDescription('Only allow sends to addresses you trust')
+            .addStringOption(option => option
+                .setName('action')
+                .setDescription('What to do')
+                .setRequired(true)
+                .addChoices(
+                    { name: 'on', value: 'on' },
+                    { name: 'off', value: 'off' },
+                    { name: 'add', value: 'add' },
+                    { name: 'remove', value: 'remove' }
+                ))
+            .addStringOption(option => option
+                .setName('address')
+                .setDescription('Address to add or remove')))
+        .addSubcommand(subcommand => subcommand
+            .setName('pin')
+            .setDescription('Set, change or remove your spending PIN (in DM)')),
+    execute: handleLimitsCommand,
+};
@@ -1,8 +1,10 @@
-import { Message } from 'discord.js';
+import { SlashCommandBuilder } from 'discord.js';
 import fs from 'fs';
 import { EmbedBuilder } from '@discordjs/builders';
+import { CommandContext } from '../utils/commandContext';
+import { BotCommand } from './registry';
 
-export const handleLinksCommand = (message: Message) => {
+export const handleLinksCommand = async (ctx: CommandContext) => {
   const templateContent = fs.readFileSync('message_template.json', 'utf8');
   const linksContent = fs.readFileSync('nacho_links.json', 'utf8');
 
@@ -20,5 +22,12 @@ export const handleLinksCommand = (message: Message) => {
     embed.addFields({ name: link.name, value: link.url });
   });
 
-  message.channel.send({ embeds: [embed] });
+  await ctx.reply({ embeds: [embed] });
+};
+
+export const linksCommand: BotCommand = {
+  data: new SlashCommandBuilder()
+    .setName('links')
+    .setDescription('Get official Nacho the 𐤊at community links'),
+  execute: handleLinksCommand,
 };
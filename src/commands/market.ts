@@ -0,0 +1,307 @@
+import { ActionRowBuilder, AutocompleteInteraction, ButtonBuilder, ButtonStyle, ChannelType, EmbedBuilder, MessageComponentInteraction, SlashCommandBuilder } from 'discord.js';
+import { sompiToKaspaStringWithSuffix } from '../../wasm/kaspa/kaspa';
+import { userSettings, Network } from '../utils/userSettings';
+import { walletSessions } from '../utils/walletSession';
+import { getOffer, listOffers, MarketOffer } from '../utils/marketOffers';
+import { createListing, completePurchase, cancelListing } from '../utils/krc20Market';
+import { getBalance } from '../utils/getBalance';
+import { parseTokenAmount, formatAmount, KAS_DECIMALS } from '../utils/amount';
+import { estimateInscriptionCost, COMMIT_AMOUNT } from '../utils/krc20Inscription';
+import { NETWORK_CHOICES, parseNetworkArgument, getExplorerTxUrl } from '../utils/networkConfig';
+import { searchTickers } from '../utils/tokenInfo';
+import { assertSpendAllowed, Spend } from '../utils/spendingLimits';
+import { checkRateLimit, getRateLimitRemainingTime } from '../utils/rateLimit';
+import { startTracking, trackTransaction, formatTrackingStatus } from '../utils/transactionTracker';
+import { createButton } from '../utils/utils';
+import { CommandContext } from '../utils/commandContext';
+import { Logger } from '../utils/logger';
+import { AppError, handleError } from '../utils/errorHandler';
+import { confirmStepUp } from './wallet';
+import { BotCommand } from './registry';
+
+const MAX_LISTED = 10;
+
+const getOpenWallet = (userId: string) => {
+    const userSession = userSettings.get(userId);
+    if (!userSession?.privateKey || !userSession.address || !userSession.network) {
+        throw new AppError('No wallet', 'Open or unlock a wallet with `/wallet` first.', 'NO_WALLET_SESSION');
+    }
+    return { privateKey: userSession.privateKey, network: userSession.network };
+};
+
+const requireOffer = async (ctx: CommandContext): Promise<MarketOffer> => {
+    const offerId = ctx.getString('offer_id');
+    const offer = offerId ? await getOffer(offerId) : undefined;
+    if (!offer) {
+        throw new AppError('Offer not found', 'No offer with that ID. Use `/market offers` to browse current listings.', 'OFFER_NOT_FOUND');
+    }
+    return offer;
+};
+
+const checkMarketRateLimit = async (ctx: CommandContext): Promise<boolean> => {
+    if (checkRateLimit(ctx.userId, 'market')) {
+        return true;
+    }
+    const remainingTime = Math.ceil(getRateLimitRemainingTime(ctx.userId, 'market') / 1000);
+    await ctx.reply({ content: `You're using the market too often. Please try again in ${remainingTime} seconds.`, ephemeral: true });
+    return false;
+};
+
+const formatTokenAmount = (offer: MarketOffer) => `${formatAmount(offer.amount, offer.decimals)} ${offer.ticker}`;
+
+const formatOffer = (offer: MarketOffer) => `${formatTokenAmount(offer)} for ${sompiToKaspaStringWithSuffix(BigInt(offer.price), userSettings.getNetworkType(offer.network))}`;
+
+const handleMarketList = async (ctx: CommandContext) => {
+    const { privateKey, network } = getOpenWallet(ctx.userId);
+    const ticker = ctx.getString('ticker')?.toUpperCase();
+    const amountInput = ctx.getString('amount');
+    const priceInput = ctx.getString('price');
+    if (!ticker || !amountInput || !priceInput) {
+        await ctx.reply({ content: 'Usage: `/market list <TICKER> <AMOUNT> <PRICE_IN_KAS>`', ephemeral: true });
+        return;
+    }
+    if (!await checkMarketRateLimit(ctx)) {
+        return;
+    }
+
+    await ctx.defer(true);
+    const { krc20Balances } = await getBalance(ctx.userId, network);
+    const holding = krc20Balances.find(entry => entry.ticker.toUpperCase() === ticker);
+    if (!holding) {
+        await ctx.reply({ content: `Your wallet holds no ${ticker} on ${network}.`, ephemeral: true });
+        return;
+    }
+
+    const amount = parseTokenAmount(amountInput, holding.decimals);
+    const price = parseTokenAmount(priceInput, KAS_DECIMALS);
+    if (amount > BigInt(holding.rawBalance)) {
+        await ctx.reply({ content: `You only have ${holding.balance} ${ticker} available to list.`, ephemeral: true });
+        return;
+    }
+
+    const offer = await createListing(ctx.userId, network, ticker, amount, holding.decimals, price, privateKey);
+    const { fees } = estimateInscriptionCost();
+
+    const embed = new EmbedBuilder()
+        .setColor(0x00FF00)
+        .setTitle('Offer Listed')
+        .setDescription(`${formatOffer(offer)} is now listed. Other users can buy it with \`/market buy ${offer.id}\`.`)
+        .addFields(
+            { name: 'Offer ID', value: offer.id, inline: true },
+            { name: 'Network', value: network, inline: true },
+            { name: 'Listing Fees', value: sompiToKaspaStringWithSuffix(fees, userSettings.getNetworkType(network)), inline: true },
+            { name: 'Order Transaction', value: getExplorerTxUrl(network, offer.orderTxId) }
+        )
+        .setFooter({ text: `The ${COMMIT_AMOUNT} KAS held by the order is paid back to you when it sells or is cancelled.` });
+
+    await ctx.reply({ embeds: [embed], ephemeral: true });
+};
+
+const handleMarketOffers = async (ctx: CommandContext) => {
+    const networkArg = ctx.getString('network');
+    const network: Network = networkArg ? parseNetworkArgument(networkArg) : userSettings.get(ctx.userId)?.network ?? 'Mainnet';
+    const ticker = ctx.getString('ticker')?.toUpperCase();
+
+    const offers = await listOffers(network, ticker);
+    const embed = new EmbedBuilder()
+        .setColor(0x0099FF)
+        .setTitle(`KRC20 Market${ticker ? ` · ${ticker}` : ''} · ${network}`)
+        .setTimestamp();
+
+    if (offers.length === 0) {
+        embed.setDescription('There are no open offers. List your own with `/market list`.');
+    } else {
+        embed
+            .setDescription('Buy an offer with `/market buy <OFFER_ID>` from an open wallet session.')
+            .addFields(offers.slice(0, MAX_LISTED).map(offer => ({
+                name: `${offer.id} · ${formatTokenAmount(offer)}`,
+                value: `Price: ${sompiToKaspaStringWithSuffix(BigInt(offer.price), userSettings.getNetworkType(network))}\nSeller: <@${offer.sellerId}>`
+            })));
+        if (offers.length > MAX_LISTED) {
+            embed.setFooter({ text: `...and ${offers.length - MAX_LISTED} more. Filter by ticker to narrow the list.` });
+        }
+    }
+
+    await ctx.reply({ embeds: [embed] });
+};
+
+const handleMarketBuy = async (ctx: CommandContext) => {
+    const { privateKey, network } = getOpenWallet(ctx.userId);
+    const offer = await requireOffer(ctx);
+    if (offer.network !== network) {
+        await ctx.reply({ content: `This offer is on ${offer.network}, but your wallet is open on ${network}.`, ephemeral: true });
+        return;
+    }
+    if (offer.sellerId === ctx.userId) {
+        await ctx.reply({ content: 'You cannot buy your own offer. Use `/market cancel` to take it down.', ephemeral: true });
+        return;
+    }
+    if (!await checkMarketRateLimit(ctx)) {
+        return;
+    }
+
+    // The network fee is only known once the purchase is signed; completePurchase counts it too
+    const price = BigInt(offer.price);
+    const spend: Spend = { kind: 'purchase', amount: price, destinations: [offer.sellerAddress] };
+    await assertSpendAllowed(ctx.userId, spend);
+
+    // Purchases are confirmed in DMs, like every other spend from the wallet
+    const channel = await ctx.user.createDM();
+    if (ctx.channel?.type !== ChannelType.DM) {
+        await ctx.reply({ content: "I've sent you a DM to confirm the purchase.", ephemeral: true });
+    }
+
+    const confirmEmbed = new EmbedBuilder()
+        .setColor(0xFFA500)
+        .setTitle('Confirm Purchase')
+        .setDescription(`Buy ${formatOffer(offer)} from <@${offer.sellerId}>?`)
+        .addFields(
+            { name: 'Offer ID', value: offer.id, inline: true },
+            { name: 'Network', value: network, inline: true }
+        )
+        .setFooter({ text: 'The network fee is added to the price.' });
+
+    const row = new ActionRowBuilder<ButtonBuilder>()
+        .addComponents(
+            createButton('confirm_buy', 'Buy', ButtonStyle.Success),
+            createButton('cancel_buy', 'Cancel', ButtonStyle.Secondary)
+        );
+
+    const confirmMessage = await channel.send({ embeds: [confirmEmbed], components: [row] });
+    let choice: MessageComponentInteraction;
+    try {
+        choice = await confirmMessage.awaitMessageComponent({
+            filter: (i: MessageComponentInteraction) => i.user.id === ctx.userId,
+            time: 60000
+        });
+        await choice.deferUpdate();
+    } catch {
+        await confirmMessage.edit({ content: 'Purchase timed out.', components: [] }).catch(() => undefined);
+        return;
+    }
+
+    await confirmMessage.edit({ components: [] }).catch(() => undefined);
+    if (choice.customId !== 'confirm_buy') {
+        await channel.send('Purchase cancelled.');
+        return;
+    }
+    try {
+        await confirmStepUp(channel, ctx.userId, spend, { value: price, decimals: KAS_DECIMALS, display: sompiToKaspaStringWithSuffix(price, userSettings.getNetworkType(network)) });
+    } catch (error) {
+        await handleError(error, channel, 'handleMarketBuy');
+        return;
+    }
+
+    const progressMessage = await channel.send('Submitting your purchase...');
+    walletSessions.get(ctx.userId)?.touch();
+    try {
+        const { txId } = await completePurchase(offer, ctx.userId, privateKey);
+        startTracking(progressMessage, `Purchase of ${formatOffer(offer)}`, network, txId, { krc20: true, footer: 'The tokens arrive once the Kasplex indexer accepts the purchase.' });
+    } catch (error) {
+        Logger.error(`Purchase of offer ${offer.id} failed for user ${ctx.userId}: ${error}`);
+        await progressMessage.edit(`❌ ${error instanceof AppError ? error.userMessage : 'The purchase failed. Please try again later.'}`);
+    }
+};
+
+const handleMarketCancel = async (ctx: CommandContext) => {
+    const offer = await requireOffer(ctx);
+    if (offer.sellerId !== ctx.userId) {
+        await ctx.reply({ content: 'You can only cancel your own offers.', ephemeral: true });
+        return;
+    }
+    const { privateKey, network } = getOpenWallet(ctx.userId);
+    if (offer.network !== network) {
+        await ctx.reply({ content: `This offer is on ${offer.network}. Open your wallet on that network to cancel it.`, ephemeral: true });
+        return;
+    }
+    if (!await checkMarketRateLimit(ctx)) {
+        return;
+    }
+
+    await ctx.defer(true);
+    const txId = await cancelListing(offer, privateKey);
+    if (!txId) {
+        await ctx.reply({ content: `Offer ${offer.id} was already sold or cancelled and has been removed.`, ephemeral: true });
+        return;
+    }
+    // The reply is ephemeral and cannot be edited as the status changes, so it waits for the final one
+    const status = await trackTransaction(network, txId, () => undefined, { krc20: true });
+    await ctx.reply({
+        content: status.state === 'confirmed'
+            ? `Offer ${offer.id} cancelled and ${formatTokenAmount(offer)} returned to your wallet.\n${formatTrackingStatus(status)}`
+            : `Cancelling offer ${offer.id}:\n${formatTrackingStatus(status)}`,
+        ephemeral: true
+    });
+};
+
+export const handleMarketCommand = async (ctx: CommandContext) => {
+    Logger.info(`Market command (${ctx.subcommand}) triggered by user: ${ctx.userId}`);
+
+    switch (ctx.subcommand) {
+        case 'list':
+            return handleMarketList(ctx);
+        case 'buy':
+            return handleMarketBuy(ctx);
+        case 'cancel':
+            return handleMarketCancel(ctx);
+        default:
+            return handleMarketOffers(ctx);
+    }
+};
+
+const handleMarketAutocomplete = async (interaction: AutocompleteInteraction) => {
+    const query = interaction.options.getFocused();
+    const networkArg = interaction.options.getString('network');
+    const network = networkArg ? parseNetworkArgument(networkArg) : userSettings.get(interaction.user.id)?.network ?? 'Mainnet';
+    const tickers = await searchTickers(query, network);
+    await interaction.respond(tickers.map(tick => ({ name: tick, value: tick })));
+};
+
+export const marketCommand: BotCommand = {
+    data: new SlashCommandBuilder()
+        .setName('market')
+        .setDescription('Buy and sell KRC20 tokens with other users')
+        .addSubcommand(subcommand => subcommand
+            .setName('offers')
+            .setDescription('Browse open offers')
+            .addStringOption(option => option
+                .setName('ticker')
+                .setDescription('Only show offers for this token')
+                .setAutocomplete(true))
+            .addStringOption(option => option
+                .setName('network')
+                .setDescription('Network to browse (defaults to your wallet network or Mainnet)')
+                .addChoices(...NETWORK_CHOICES)))
+        .addSubcommand(subcommand => subcommand
+            .setName('list')
+            .setDescription('List tokens from your open wallet for sale')
+            .addStringOption(option => option
+                .setName('ticker')
+                .setDescription('Token ticker, e.g. NACHO')
+                .setRequired(true)
+                .setAutocomplete(true))
+            .addStringOption(option => option
+                .setName('amount')
+                .setDescription('Amount of tokens to sell')
+                .setRequired(true))
+            .addStringOption(option => option
+                .setName('price')
+                .setDescription('Total price in KAS')
+                .setRequired(true)))
+        .addSubcommand(subcommand => subcommand
+            .setName('buy')
+            .setDescription('Buy an offer with your open wallet')
+            .addStringOption(option => option
+                .setName('offer_id')
+                .setDescription('Offer ID from /market offers')
+                .setRequired(true)))
+        .addSubcommand(subcommand => subcommand
+            .setName('cancel')
+            .setDescription('Cancel one of your offers and return the tokens')
+            .addStringOption(option => option
+                .setName('offer_id')
+                .setDescription('Offer ID from /market offers')
+                .setRequired(true))),
+    execute: handleMarketCommand,
+    autocomplete: handleMarketAutocomplete,
+};
@@ -0,0 +1,92 @@
+import { EmbedBuilder, SlashCommandBuilder } from 'discord.js';
+import { sompiToKaspaStringWithSuffix } from '../../wasm/kaspa/kaspa';
+import { userSettings, Network } from '../utils/userSettings';
+import { getVaultSummary } from '../utils/walletVault';
+import { setNotificationSetting, removeNotificationSetting, getNotificationSettings, syncWatchedWallets, DEFAULT_MIN_NOTIFY_AMOUNT } from '../utils/paymentNotifications';
+import { parseTokenAmount, KAS_DECIMALS } from '../utils/amount';
+import { CommandContext } from '../utils/commandContext';
+import { Logger } from '../utils/logger';
+import { AppError } from '../utils/errorHandler';
+import { BotCommand } from './registry';
+
+// The open wallet if there is one, otherwise the one saved in the vault
+const getTargetWallet = async (userId: string): Promise<{ address: string; network: Network }> => {
+    const userSession = userSettings.get(userId);
+    if (userSession?.address) {
+        return { address: userSession.address, network: userSession.network };
+    }
+    const vault = await getVaultSummary(userId);
+    if (vault) {
+        return vault;
+    }
+    throw new AppError('No wallet', 'Open a wallet with `/wallet` or save one to your vault before turning on payment notifications.', 'NO_WALLET');
+};
+
+const handleNotifyOn = async (ctx: CommandContext) => {
+    const wallet = await getTargetWallet(ctx.userId);
+    const minAmountInput = ctx.getString('min_amount');
+    const minAmount = minAmountInput ? parseTokenAmount(minAmountInput, KAS_DECIMALS) : DEFAULT_MIN_NOTIFY_AMOUNT;
+
+    await setNotificationSetting(ctx.userId, wallet.address, { network: wallet.network, minAmount: minAmount.toString() });
+    await syncWatchedWallets(ctx.userId);
+    Logger.info(`User ${ctx.userId} turned on payment notifications on ${wallet.network}`);
+
+    await ctx.reply({
+        content: `🔔 You'll get a DM for incoming payments of at least ${sompiToKaspaStringWithSuffix(minAmount, userSettings.getNetworkType(wallet.network))} to ${wallet.address} while this wallet is open or saved in your vault.`,
+        ephemeral: true
+    });
+};
+
+const handleNotifyOff = async (ctx: CommandContext) => {
+    const wallet = await getTargetWallet(ctx.userId);
+    await removeNotificationSetting(ctx.userId, wallet.address);
+    await syncWatchedWallets(ctx.userId);
+    await ctx.reply({ content: `🔕 Payment notifications turned off for ${wallet.address}.`, ephemeral: true });
+};
+
+const handleNotifyStatus = async (ctx: CommandContext) => {
+    const settings = Object.entries(await getNotificationSettings(ctx.userId));
+    if (settings.length === 0) {
+        await ctx.reply({ content: 'Payment notifications are off. Turn them on for your wallet with `/notify on [min_amount]`.', ephemeral: true });
+        return;
+    }
+
+    const embed = new EmbedBuilder()
+        .setColor(0x0099FF)
+        .setTitle('Payment Notifications')
+        .addFields(settings.map(([address, setting]) => ({
+            name: setting.network,
+            value: `${address}\nMinimum: ${sompiToKaspaStringWithSuffix(BigInt(setting.minAmount), userSettings.getNetworkType(setting.network))}`
+        })));
+    await ctx.reply({ embeds: [embed], ephemeral: true });
+};
+
+export const handleNotifyCommand = async (ctx: CommandContext) => {
+    switch (ctx.subcommand) {
+        case 'on':
+            return handleNotifyOn(ctx);
+        case 'off':
+            return handleNotifyOff(ctx);
+        default:
+            return handleNotifyStatus(ctx);
+    }
+};
+
+export const notifyCommand: BotCommand = {
+    data: new SlashCommandBuilder()
+        .setName('notify')
+        .setDescription('Get a DM when KAS arrives in your wallet')
+        .addSubcommand(subcommand => subcommand
+            .setName('on')
+            .setDescription('Turn on notifications for your open or vaulted wallet')
+            .addStringOption(option => option
+                .setName('min_amount')
+                .setDescription('Ignore payments below this many KAS (defaults to 1)')))
+        .addSubcommand(subcommand => subcommand
+            .setName('off')
+            .setDescription('Turn off notifications for your open or vaulted wallet'))
+        .addSubcommand(subcommand => subcommand
+            .setName('status')
+            .setDescription('Show which wallets you get notifications for')),
+    execute: handleNotifyCommand,
+};
@@ -0,0 +1,203 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, EmbedBuilder, MessageComponentInteraction, SlashCommandBuilder } from 'discord.js';
+import { sompiToKaspaStringWithSuffix } from '../../wasm/kaspa/kaspa';
+import { userSettings } from '../utils/userSettings';
+import { walletSessions } from '../utils/walletSession';
+import { parseTip } from '../utils/tipping';
+import { selectRainRecipients, splitRain, runTokenRain, MAX_RAIN_RECIPIENTS, DEFAULT_MIN_ACCOUNT_AGE_DAYS, RainRecipient } from '../utils/rain';
+import { estimateSendKaspaBatch, sendKaspaBatch } from '../utils/sendKaspa';
+import { estimateInscriptionCost } from '../utils/krc20Inscription';
+import { getBalance } from '../utils/getBalance';
+import { getExplorerTxUrl } from '../utils/networkConfig';
+import { startTracking, startTrackingBatch } from '../utils/transactionTracker';
+import { checkRateLimit, getRateLimitRemainingTime } from '../utils/rateLimit';
+import { createButton } from '../utils/utils';
+import { CommandContext } from '../utils/commandContext';
+import { Logger } from '../utils/logger';
+import { AppError } from '../utils/errorHandler';
+import { Spend } from '../utils/spendingLimits';
+import { formatTipAmount } from './tip';
+import { confirmStepUpInDm } from './wallet';
+import { BotCommand } from './registry';
+
+const formatRecipients = (recipients: RainRecipient[]) => recipients.map(recipient => `<@${recipient.userId}>`).join(' ').slice(0, 1024);
+
+export const handleRainCommand = async (ctx: CommandContext) => {
+    const rainerId = ctx.userId;
+    const channel = ctx.channel;
+    if (!ctx.guildId || !channel || !('guild' in channel) || !('send' in channel)) {
+        await ctx.reply({ content: 'Rain can only be started in server channels.', ephemeral: true });
+        return;
+    }
+
+    const amountInput = ctx.getString('amount');
+    const assetInput = ctx.getString('asset');
+    const count = ctx.getInteger('count');
+    if (!amountInput || !assetInput || !count || count < 1 || count > MAX_RAIN_RECIPIENTS) {
+        await ctx.reply({ content: `Usage: \`!rain <AMOUNT> <KAS|TICKER> <MEMBERS (1-${MAX_RAIN_RECIPIENTS})> [@role] [MIN_ACCOUNT_AGE_DAYS]\``, ephemeral: true });
+        return;
+    }
+
+    const userSession = userSettings.get(rainerId);
+    if (!userSession?.privateKey) {
+        await ctx.reply({ content: 'Open or unlock your wallet with `/wallet` in a DM to the bot before starting a rain.', ephemeral: true });
+        return;
+    }
+
+    const rateLimitKey = `${ctx.guildId}:${rainerId}`;
+    if (!checkRateLimit(rateLimitKey, 'rain')) {
+        const remainingTime = Math.ceil(getRateLimitRemainingTime(rateLimitKey, 'rain') / 1000);
+        await ctx.reply({ content: `You're making it rain too often in this server. Please try again in ${remainingTime} seconds.`, ephemeral: true });
+        return;
+    }
+
+    await ctx.defer(true);
+    const rain = await parseTip(userSession.network, amountInput, assetInput);
+    const { ticker, decimals } = rain.asset;
+    const minAccountAgeDays = ctx.getInteger('min_account_age') ?? DEFAULT_MIN_ACCOUNT_AGE_DAYS;
+    const roleId = ctx.getRoleId('role');
+
+    const recipients = await selectRainRecipients(channel.guild, channel.id, rainerId, rain.network, count, { roleId, minAccountAgeDays });
+    if (recipients.length === 0) {
+        await ctx.reply({ content: `No recently active members here have a registered ${rain.network} address${roleId ? ' and the required role' : ''}. Members can register one with \`/address set\`.`, ephemeral: true });
+        return;
+    }
+    const perRecipient = splitRain(rain.amount, recipients.length);
+    const total = perRecipient * BigInt(recipients.length);
+    const outputs = recipients.map(recipient => ({ address: recipient.address, amount: perRecipient }));
+
+    let fees: bigint;
+    if (ticker) {
+        const { krc20Balances } = await getBalance(rainerId, rain.network);
+        const holding = krc20Balances.find(entry => entry.ticker.toUpperCase() === ticker);
+        if (!holding || BigInt(holding.rawBalance) < total) {
+            await ctx.reply({ content: `You don't have enough ${ticker} for this rain.`, ephemeral: true });
+            return;
+        }
+        fees = estimateInscriptionCost().fees * BigInt(recipients.length);
+    } else {
+        fees = (await estimateSendKaspaBatch(rainerId, outputs, rain.network)).fees;
+    }
+
+    const confirmEmbed = new EmbedBuilder()
+        .setColor(0xFFA500)
+        .setTitle('Confirm Rain')
+        .setDescription(`<@${rainerId}>, split ${formatTipAmount(total, ticker, decimals)} between ${recipients.length} member(s)?`)
+        .addFields(
+            { name: 'Each Receives', value: formatTipAmount(perRecipient, ticker, decimals), inline: true },
+            { name: 'Network Fees', value: sompiToKaspaStringWithSuffix(fees, userSettings.getNetworkType(rain.network)), inline: true },
+            { name: 'Recipients', value: formatRecipients(recipients) }
+        );
+    if (recipients.length < count) {
+        confirmEmbed.setFooter({ text: `Only ${recipients.length} of ${count} requested members qualified.` });
+    }
+
+    const row = new ActionRowBuilder<ButtonBuilder>()
+        .addComponents(
+            createButton('confirm_rain', 'Make It Rain', ButtonStyle.Success),
+            createButton('cancel_rain', 'Cancel', ButtonStyle.Secondary)
+        );
+
+    await ctx.reply({ content: 'Confirm your rain with the buttons below.', ephemeral: true });
+    const confirmMessage = await channel.send({ embeds: [confirmEmbed], components: [row] });
+
+    let choice: MessageComponentInteraction;
+    try {
+        choice = await confirmMessage.awaitMessageComponent({
+            filter: (i: MessageComponentInteraction) => i.user.id === rainerId,
+            time: 60000
+        });
+        await choice.deferUpdate();
+    } catch {
+        await confirmMessage.edit({ content: 'Rain expired.', embeds: [], components: [] }).catch(() => undefined);
+        return;
+    }
+
+    if (choice.customId !== 'confirm_rain') {
+        await confirmMessage.edit({ content: 'Rain cancelled.', embeds: [], components: [] });
+        return;
+    }
+
+    const spend: Spend = ticker
+        ? { kind: 'transfer', amount: fees, destinations: recipients.map(recipient => recipient.address) }
+        : { kind: 'send', amount: total + fees, destinations: recipients.map(recipient => recipient.address) };
+    try {
+        await confirmStepUpInDm(ctx.user, spend, { value: total, decimals, display: formatTipAmount(total, ticker, decimals) },
+            () => confirmMessage.edit({ content: '🔐 Check your DMs to confirm this rain.', embeds: [], components: [] }));
+    } catch (error) {
+        await confirmMessage.edit({ content: `❌ Rain cancelled: ${error instanceof AppError ? error.userMessage : 'please try again later.'}`, embeds: [], components: [] });
+        return;
+    }
+
+    await confirmMessage.edit({ content: `🌧️ Sending rain to ${recipients.length} member(s)...`, embeds: [], components: [] });
+    walletSessions.get(rainerId)?.touch();
+
+    const receipt = new EmbedBuilder()
+        .setColor(0x00FF00)
+        .setTitle('🌧️ It Rained!')
+        .setDescription(`<@${rainerId}> made it rain **${formatTipAmount(perRecipient, ticker, decimals)}** each on ${recipients.length} member(s).`)
+        .addFields({ name: 'Network', value: rain.network, inline: true })
+        .setTimestamp();
+
+    try {
+        if (!ticker) {
+            // One multi-output transaction, so everyone is paid or nobody is
+            const txId = await sendKaspaBatch(rainerId, outputs, rain.network);
+            receipt.addFields(
+                { name: 'Recipients', value: formatRecipients(recipients) },
+                { name: 'Transaction', value: getExplorerTxUrl(rain.network, txId) }
+            );
+            await confirmMessage.edit({ content: '', embeds: [receipt] });
+            startTracking(confirmMessage, 'Rain transaction', rain.network, txId);
+        } else {
+            const results = await runTokenRain(rainerId, rain.network, ticker, perRecipient, recipients, async done => {
+                walletSessions.get(rainerId)?.touch();
+                await confirmMessage.edit(`🌧️ Sending rain... ${done}/${recipients.length}`).catch(() => undefined);
+            });
+            const paid = results.filter(result => result.txId).map(result => result.recipient);
+            const failed = results.filter(result => result.error);
+            receipt.addFields({ name: 'Recipients', value: paid.length > 0 ? formatRecipients(paid) : 'None' });
+            if (failed.length > 0) {
+                receipt
+                    .setColor(0xFFA500)
+                    .addFields({ name: 'Failed', value: failed.map(result => `<@${result.recipient.userId}>: ${result.error}`).join('\n').slice(0, 1024) });
+            }
+            await confirmMessage.edit({ content: '', embeds: [receipt] });
+            const txIds = results.flatMap(result => result.txId ? [result.txId] : []);
+            if (txIds.length > 0) {
+                startTrackingBatch(confirmMessage, 'Rain transfers', rain.network, txIds, { krc20: true });
+            }
+        }
+    } catch (error) {
+        Logger.error(`Rain from ${rainerId} failed: ${error}`);
+        await confirmMessage.edit(`❌ Rain failed: ${error instanceof AppError ? error.userMessage : 'please try again later.'}`);
+    }
+};
+
+export const rainCommand: BotCommand = {
+    data: new SlashCommandBuilder()
+        .setName('rain')
+        .setDescription('Split KAS or a KRC20 token between recently active members')
+        .setDMPermission(false)
+        .addStringOption(option => option
+            .setName('amount')
+            .setDescription('Total amount to split')
+            .setRequired(true))
+        .addStringOption(option => option
+            .setName('asset')
+            .setDescription('KAS or a KRC20 ticker, e.g. NACHO')
+            .setRequired(true))
+        .addIntegerOption(option => option
+            .setName('count')
+            .setDescription('Maximum number of members to pay')
+            .setRequired(true)
+            .setMinValue(1)
+            .setMaxValue(MAX_RAIN_RECIPIENTS))
+        .addRoleOption(option => option
+            .setName('role')
+            .setDescription('Only pay members with this role'))
+        .addIntegerOption(option => option
+            .setName('min_account_age')
+            .setDescription(`Minimum Discord account age in days (defaults to ${DEFAULT_MIN_ACCOUNT_AGE_DAYS})`)
+            .setMinValue(0)),
+    execute: handleRainCommand,
+};
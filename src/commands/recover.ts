@@ -0,0 +1,244 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, ChannelType, Client, EmbedBuilder, MessageComponentInteraction, SlashCommandBuilder } from 'discord.js';
+import { userSettings } from '../utils/userSettings';
+import { walletSessions } from '../utils/walletSession';
+import { getPendingInscriptions, PendingInscription } from '../utils/pendingInscriptions';
+import { recoverInscription, resolveInscriptionFees, COMMIT_AMOUNT } from '../utils/krc20Inscription';
+import { withSpendingLimit, Spend } from '../utils/spendingLimits';
+import { getExplorerTxUrl } from '../utils/networkConfig';
+import { createButton } from '../utils/utils';
+import { CommandContext } from '../utils/commandContext';
+import { Logger } from '../utils/logger';
+import { AppError } from '../utils/errorHandler';
+import { BotCommand } from './registry';
+
+const MAX_LISTED = 10;
+
+const describeOperation = (pending: PendingInscription): string => {
+    try {
+        const payload = JSON.parse(pending.payload);
+        return `${payload.op} ${payload.tick ?? ''}`.trim();
+    } catch {
+        return 'unknown operation';
+    }
+};
+
+const formatAge = (createdAt: number): string => {
+    const minutes = Math.floor((Date.now() - createdAt) / 60000);
+    if (minutes < 60) {
+        return `${minutes} min ago`;
+    }
+    const hours = Math.floor(minutes / 60);
+    return hours < 48 ? `${hours} h ago` : `${Math.floor(hours / 24)} days ago`;
+};
+
+const recoverOne = async (pending: PendingInscription, userId: string): Promise<string> => {
+    const userSession = userSettings.get(userId);
+    const label = `\`${describeOperation(pending)}\` (${pending.commitTxId.slice(0, 12)}…)`;
+    if (!userSession?.privateKey) {
+        return `⏹️ ${label}: your wallet session ended`;
+    }
+    if (userSession.network !== pending.network) {
+        return `⏭️ ${label}: open your wallet on ${pending.network} to recover this one`;
+    }
+
+    try {
+        const outcome = await recoverInscription(pending, userSession.privateKey);
+        switch (outcome.status) {
+            case 'revealed':
+                return `✅ ${label}: reclaimed in ${getExplorerTxUrl(pending.network, outcome.revealTxId)}`;
+            case 'waiting':
+                return `⏳ ${label}: the commit is not confirmed yet, try again in a few minutes`;
+            case 'not_found':
+                return `🧹 ${label}: already spent or never accepted, removed from the list`;
+        }
+    } catch (error) {
+        Logger.error(`Failed to recover commit ${pending.commitTxId} for user ${userId}: ${error}`);
+        return `❌ ${label}: ${error instanceof AppError ? error.userMessage : 'recovery failed, please try again later'}`;
+    }
+};
+
+export const handleRecoverCommand = async (ctx: CommandContext) => {
+    const userId = ctx.userId;
+    Logger.info(`Recover command triggered by user: ${userId}`);
+
+    const pending = await getPendingInscriptions(userId);
+    if (pending.length === 0) {
+        await ctx.reply({ content: 'You have no stuck KRC-20 commits. 🎉', ephemeral: true });
+        return;
+    }
+
+    if (!userSettings.get(userId)?.privateKey) {
+        await ctx.reply({
+            content: `You have ${pending.length} stuck KRC-20 commit(s). Open or unlock the wallet that made them with \`/wallet\` first, then run \`/recover\` again.`,
+            ephemeral: true
+        });
+        return;
+    }
+
+    const channel = await ctx.user.createDM();
+    if (ctx.channel?.type !== ChannelType.DM) {
+        await ctx.reply({ content: "I've sent you a DM with your stuck commits.", ephemeral: true });
+    }
+
+    const listEmbed = new EmbedBuilder()
+        .setColor(0xFFA500)
+        .setTitle('Stuck KRC-20 Commits')
+        .setDescription(`These commits locked ${COMMIT_AMOUNT} KAS each in a P2SH address but were never revealed. Recovering submits the reveal, which completes the original operation and returns the locked KAS to your wallet.`)
+        .addFields(pending.slice(0, MAX_LISTED).map(entry => ({
+            name: `${describeOperation(entry)} · ${entry.network} · ${formatAge(entry.createdAt)}`,
+            value: [
+                `Commit: ${getExplorerTxUrl(entry.network, entry.commitTxId)}`,
+                `Reveal attempts: ${entry.attempts}`,
+                entry.lastError ? `Last error: ${entry.lastError.slice(0, 200)}` : ''
+            ].filter(Boolean).join('\n')
+        })));
+
+    if (pending.length > MAX_LISTED) {
+        listEmbed.setFooter({ text: `...and ${pending.length - MAX_LISTED} more` });
+    }
+
+    const row = new ActionRowBuilder<ButtonBuilder>()
+        .addComponents(
+            createButton('recover_all', 'Recover All', ButtonStyle.Success),
+            createButton('recover_cancel', 'Cancel', ButtonStyle.Secondary)
+        );
+
+    const listMessage = await channel.send({ embeds: [listEmbed], components: [row] });
+    let choice: MessageComponentInteraction;
+    try {
+        choice = await listMessage.awaitMessageComponent({
+            filter: (i: MessageComponentInteraction) => i.user.id === userId,
+            time: 60000
+        });
+        await choice.deferUpdate();
+    } catch {
+        await listMessage.edit({ components: [] }).catch(() => undefined);
+        return;
+    }
+
+    await listMessage.edit({ components: [] }).catch(() => undefined);
+    if (choice.customId !== 'recover_all') {
+        return;
+    }
+
+    const progressMessage = await channel.send(`Recovering ${pending.length} commit(s)...`);
+    const results: string[] = [];
+    for (const entry of pending) {
+        results.push(await recoverOne(entry, userId));
+        walletSessions.get(userId)?.touch();
+    }
+
+    await progressMessage.edit(results.join('\n').slice(0, 2000));
+};
+
+/**
+ * Commits can only be revealed with the user's key, which the bot never keeps
+ * across restarts, so on startup each affected user is told that their
+ * commits will be swept once they open the wallet that made them.
+ */
+export const notifyPendingInscriptions = async (client: Client<true>): Promise<void> => {
+    const pending = await getPendingInscriptions();
+    const countByUser = new Map<string, number>();
+    pending.forEach(entry => countByUser.set(entry.userId, (countByUser.get(entry.userId) ?? 0) + 1));
+
+    if (countByUser.size > 0) {
+        Logger.info(`Found ${pending.length} unrevealed KRC-20 commits for ${countByUser.size} users`);
+    }
+
+    for (const [userId, count] of countByUser) {
+        try {
+            const user = await client.users.fetch(userId);
+            await user.send(`⚠️ ${count} KRC-20 commit(s) from your wallet were never revealed, leaving ${COMMIT_AMOUNT} KAS each locked. Open or unlock the wallet that made them with \`/wallet\` and they will be reclaimed automatically, or run \`/recover\` to do it yourself.`);
+        } catch (error) {
+            Logger.warn(`Failed to notify user ${userId} about pending commits: ${error}`);
+        }
+    }
+};
+
+const AUTO_RECOVERY_INTERVAL = 60000;
+// Younger commits may still be revealed by the operation that made them
+const MIN_AUTO_RECOVERY_AGE = 10 * 60 * 1000;
+const AUTO_RECOVERY_RETRY_DELAY = 10 * 60 * 1000;
+// Commits the sweeper gave up on are left to /recover
+const MAX_AUTO_RECOVERY_ATTEMPTS = 5;
+
+const lastAutoAttempt = new Map<string, number>();
+let recoveryBusy = false;
+
+const canAutoRecover = (entry: PendingInscription, now: number): boolean => {
+    const userSession = userSettings.get(entry.userId);
+    return !!userSession?.privateKey
+        && userSession.network === entry.network
+        && userSession.address === entry.senderAddress
+        && now - entry.createdAt >= MIN_AUTO_RECOVERY_AGE
+        && entry.attempts < MAX_AUTO_RECOVERY_ATTEMPTS
+        && now - (lastAutoAttempt.get(entry.commitTxId) ?? 0) >= AUTO_RECOVERY_RETRY_DELAY;
+};
+
+const notifyRecovery = async (client: Client<true>, userId: string, message: string) => {
+    try {
+        const user = await client.users.fetch(userId);
+        await user.send(message);
+    } catch (error) {
+        Logger.warn(`Failed to notify user ${userId} about commit recovery: ${error}`);
+    }
+};
+
+const sweepPendingInscriptions = async (client: Client<true>): Promise<void> => {
+    const now = Date.now();
+    for (const entry of (await getPendingInscriptions()).filter(pending => canAutoRecover(pending, now))) {
+        const privateKey = userSettings.get(entry.userId)?.privateKey;
+        if (!privateKey) {
+            continue;
+        }
+        lastAutoAttempt.set(entry.commitTxId, now);
+        const label = `\`${describeOperation(entry)}\` (${entry.commitTxId.slice(0, 12)}…)`;
+
+        // A protocol fee (deploy) is only paid when the user reveals it themselves; the ticker may be taken by now
+        const normalFee = resolveInscriptionFees().revealFee;
+        const revealFee = BigInt(entry.revealFee) > normalFee ? normalFee : BigInt(entry.revealFee);
+        const spend: Spend = { kind: 'recovery', amount: revealFee, destinations: [] };
+
+        try {
+            const outcome = await withSpendingLimit(entry.userId, spend, () => recoverInscription(entry, privateKey, revealFee));
+            if (outcome.status === 'revealed') {
+                Logger.info(`Automatically revealed commit ${entry.commitTxId} for user ${entry.userId}`);
+                await notifyRecovery(client, entry.userId, `✅ Your stuck KRC-20 commit ${label} was reclaimed now that your wallet is open: ${getExplorerTxUrl(entry.network, outcome.revealTxId)}`);
+            }
+        } catch (error) {
+            Logger.error(`Automatic recovery of commit ${entry.commitTxId} failed: ${error}`);
+            if (entry.attempts + 1 >= MAX_AUTO_RECOVERY_ATTEMPTS) {
+                await notifyRecovery(client, entry.userId, `❌ Your stuck KRC-20 commit ${label} could not be reclaimed automatically. Run \`/recover\` to try again yourself.`);
+            }
+        }
+    }
+};
+
+/**
+ * Tells affected users about unrevealed commits, then reveals each one as soon
+ * as the wallet that made it is open in a session, which returns the locked KAS.
+ */
+export const startPendingInscriptionRecovery = async (client: Client<true>): Promise<void> => {
+    setInterval(async () => {
+        if (recoveryBusy) {
+            return;
+        }
+        recoveryBusy = true;
+        try {
+            await sweepPendingInscriptions(client);
+        } catch (error) {
+            Logger.error(`Pending inscription recovery failed: ${error}`);
+        } finally {
+            recoveryBusy = false;
+        }
+    }, AUTO_RECOVERY_INTERVAL);
+    Logger.info('Pending inscription recovery started');
+    await notifyPendingInscriptions(client);
+};
+
+export const recoverCommand: BotCommand = {
+    data: new SlashCommandBuilder()
+        .setName('recover')
+        .setDescription('List and reclaim KRC-20 commits that were never revealed'),
+    execute: handleRecoverCommand,
+};
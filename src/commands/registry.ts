@@ -0,0 +1,135 @@
+import { AutocompleteInteraction, ChatInputCommandInteraction, Client, Message, RESTPostAPIChatInputApplicationCommandsJSONBody } from 'discord.js';
+import { CommandContext, createInteractionContext, createMessageContext } from '../utils/commandContext';
+import { Logger } from '../utils/logger';
+import { handleError } from '../utils/errorHandler';
+import { walletSessions } from '../utils/walletSession';
+import { statusCommand } from './status';
+import { balanceCommand } from './balance';
+import { linksCommand } from './links';
+import { donateCommand } from './donate';
+import { helpCommand } from './help';
+import { walletCommand } from './wallet';
+import { recoverCommand } from './recover';
+import { marketCommand } from './market';
+import { tipCommand, claimCommand } from './tip';
+import { addressCommand } from './address';
+import { rainCommand } from './rain';
+import { scheduleCommand } from './schedule';
+import { notifyCommand } from './notify';
+import { limitsCommand } from './limits';
+
+export interface BotCommand {
+    data: { name: string; toJSON(): RESTPostAPIChatInputApplicationCommandsJSONBody };
+    execute(ctx: CommandContext): Promise<void>;
+    autocomplete?(interaction: AutocompleteInteraction): Promise<void>;
+}
+
+export const PREFIX = '!';
+
+const commands = new Map<string, BotCommand>();
+
+[
+    statusCommand,
+    balanceCommand,
+    linksCommand,
+    donateCommand,
+    helpCommand,
+    walletCommand,
+    recoverCommand,
+    marketCommand,
+    tipCommand,
+    claimCommand,
+    addressCommand,
+    rainCommand,
+    scheduleCommand,
+    notifyCommand,
+    limitsCommand,
+].forEach(command => commands.set(command.data.name, command));
+
+export const getCommand = (name: string): BotCommand | undefined => commands.get(name);
+
+export const registerSlashCommands = async (client: Client<true>): Promise<void> => {
+    const body = [...commands.values()].map(command => command.data.toJSON());
+    try {
+        await client.application.commands.set(body);
+        Logger.info(`Registered ${body.length} slash commands`);
+    } catch (error) {
+        Logger.error(`Failed to register slash commands: ${error}`);
+    }
+};
+
+export const handleChatInputCommand = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+    const command = commands.get(interaction.commandName);
+    if (!command) {
+        Logger.warn(`[interactionCreate] Unknown command: ${interaction.commandName}`);
+        return;
+    }
+
+    const ctx = createInteractionContext(interaction);
+    try {
+        await command.execute(ctx);
+    } catch (error) {
+        await handleError(error, ctx, `/${interaction.commandName}`);
+    }
+};
+
+export const handleAutocomplete = async (interaction: AutocompleteInteraction): Promise<void> => {
+    const command = commands.get(interaction.commandName);
+    if (!command?.autocomplete) {
+        return;
+    }
+
+    try {
+        await command.autocomplete(interaction);
+    } catch (error) {
+        Logger.error(`[autocomplete] ${interaction.commandName} failed: ${error}`);
+        await interaction.respond([]).catch(() => undefined);
+    }
+};
+
+/**
+ * Compatibility adapter for the original `!command arg ...` syntax. Returns
+ * false when the message does not name a registered command.
+ */
+export const handlePrefixCommand = async (message: Message): Promise<boolean> => {
+    if (!message.content.startsWith(PREFIX)) {
+        return false;
+    }
+
+    const args = message.content.slice(PREFIX.length).trim().split(/ +/);
+    const name = args.shift()?.toLowerCase();
+    const command = name ? commands.get(name) : undefined;
+    if (!command) {
+        return false;
+    }
+
+    const ctx = createMessageContext(message, command.data.toJSON().options ?? [], args);
+    try {
+        await command.execute(ctx);
+    } catch (error) {
+        await handleError(error, ctx, `${PREFIX}${name}`);
+    }
+    return true;
+};
+
+/**
+ * DMs are either prefix commands, replies to an active wallet prompt (which
+ * the prompt's own collector consumes), or an implicit request to open a
+ * wallet session.
+ */
+export const handleDirectMessage = async (message: Message): Promise<void> => {
+    if (await handlePrefixCommand(message)) {
+        return;
+    }
+
+    if (walletSessions.has(message.author.id)) {
+        return;
+    }
+
+    const ctx = createMessageContext(message, [], []);
+    try {
+        await walletCommand.execute(ctx);
+    } catch (error) {
+        await handleError(error, ctx, 'handleDirectMessage');
+    }
+};
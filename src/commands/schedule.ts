@@ -0,0 +1,350 @@
+import { Client, EmbedBuilder, Message, MessageCreateOptions, SlashCommandBuilder } from 'discord.js';
+import { sompiToKaspaStringWithSuffix } from '../../wasm/kaspa/kaspa';
+import { userSettings } from '../utils/userSettings';
+import { SESSION_TIMEOUT } from '../utils/walletSession';
+import { getVaultSummary } from '../utils/walletVault';
+import { sendKaspa } from '../utils/sendKaspa';
+import {
+    addScheduledPayment, getScheduledPayments, getDuePayments, updateScheduledPayment, removeScheduledPayment,
+    getNextRun, ScheduledPayment, PaymentRecurrence
+} from '../utils/scheduledPayments';
+import { nextCronRun } from '../utils/cronSchedule';
+import { validateAddress } from '../utils/inputValidation';
+import { parseTokenAmount, KAS_DECIMALS } from '../utils/amount';
+import { getExplorerTxUrl } from '../utils/networkConfig';
+import { startTracking } from '../utils/transactionTracker';
+import { CommandContext } from '../utils/commandContext';
+import { Logger } from '../utils/logger';
+import { AppError } from '../utils/errorHandler';
+import { BotCommand } from './registry';
+
+const SCHEDULER_INTERVAL = 60000;
+// How long a due payment waits for its wallet to be unlocked before that run is skipped
+const LOCKED_GRACE_PERIOD = 24 * 60 * 60 * 1000;
+
+const formatTime = (timestamp: number) => `<t:${Math.floor(timestamp / 1000)}:f>`;
+
+const describeRecurrence = (recurrence: PaymentRecurrence): string => {
+    switch (recurrence.type) {
+        case 'once':
+            return 'One-off';
+        case 'interval':
+            return recurrence.everyDays === 1 ? 'Every day' : `Every ${recurrence.everyDays} days`;
+        case 'cron':
+            return `Cron \`${recurrence.expression}\` (UTC)`;
+    }
+};
+
+const describePayment = (payment: ScheduledPayment) =>
+    `${sompiToKaspaStringWithSuffix(BigInt(payment.amount), userSettings.getNetworkType(payment.network))} to ${payment.toAddress}${payment.label ? ` (${payment.label})` : ''}`;
+
+// Accepts ISO 8601 or "YYYY-MM-DD HH:MM"; times without a zone are UTC
+const parseStartTime = (input: string): number => {
+    const normalized = input.trim().replace(' ', 'T');
+    const timestamp = Date.parse(/([zZ]|[+-]\d{2}:?\d{2})$/.test(normalized) ? normalized : `${normalized}Z`);
+    if (isNaN(timestamp)) {
+        throw new AppError('Invalid time', `"${input}" is not a valid time. Use \`YYYY-MM-DD HH:MM\` in UTC.`, 'INVALID_TIME');
+    }
+    if (timestamp < Date.now() - SCHEDULER_INTERVAL) {
+        throw new AppError('Invalid time', 'That time is in the past.', 'INVALID_TIME');
+    }
+    return Math.max(timestamp, Date.now());
+};
+
+const handleScheduleSend = async (ctx: CommandContext) => {
+    const toAddress = ctx.getString('address');
+    const amountInput = ctx.getString('amount');
+    if (!toAddress || !amountInput) {
+        await ctx.reply({ content: 'Usage: `/schedule send <ADDRESS> <AMOUNT> [at] [every_days] [cron] [label]`', ephemeral: true });
+        return;
+    }
+
+    const vault = await getVaultSummary(ctx.userId);
+    if (!vault) {
+        await ctx.reply({ content: 'Scheduled payments run from your vault wallet. Save a wallet with `/wallet save` first.', ephemeral: true });
+        return;
+    }
+    validateAddress(toAddress, vault.network);
+    const amount = parseTokenAmount(amountInput, KAS_DECIMALS);
+
+    const at = ctx.getString('at');
+    const everyDays = ctx.getInteger('every_days');
+    const cron = ctx.getString('cron');
+    if (everyDays !== undefined && cron) {
+        await ctx.reply({ content: 'Use either `every_days` or `cron`, not both.', ephemeral: true });
+        return;
+    }
+
+    let recurrence: PaymentRecurrence;
+    let nextRunAt: number;
+    if (cron) {
+        if (at) {
+            await ctx.reply({ content: 'Cron schedules pick their own run times, so `at` cannot be combined with `cron`.', ephemeral: true });
+            return;
+        }
+        recurrence = { type: 'cron', expression: cron.trim() };
+        nextRunAt = nextCronRun(recurrence.expression, Date.now());
+    } else if (everyDays !== undefined) {
+        recurrence = { type: 'interval', everyDays };
+        nextRunAt = at ? parseStartTime(at) : Date.now();
+    } else if (at) {
+        recurrence = { type: 'once' };
+        nextRunAt = parseStartTime(at);
+    } else {
+        await ctx.reply({ content: 'Give a time with `at` for a one-off payment, or `every_days` / `cron` for a recurring one.', ephemeral: true });
+        return;
+    }
+
+    const payment = await addScheduledPayment({
+        userId: ctx.userId,
+        network: vault.network,
+        fromAddress: vault.address,
+        toAddress,
+        amount: amount.toString(),
+        label: ctx.getString('label')?.slice(0, 100),
+        recurrence,
+        nextRunAt
+    });
+    Logger.info(`User ${ctx.userId} scheduled payment ${payment.id}`);
+
+    const embed = new EmbedBuilder()
+        .setColor(0x00FF00)
+        .setTitle('Payment Scheduled')
+        .setDescription(describePayment(payment))
+        .addFields(
+            { name: 'ID', value: payment.id, inline: true },
+            { name: 'Repeats', value: describeRecurrence(recurrence), inline: true },
+            { name: 'Next Run', value: formatTime(nextRunAt), inline: true },
+            { name: 'From', value: `${vault.address} (${vault.network})` },
+            {
+                name: '⚠️ Your wallet must be unlocked when this is due',
+                value: `The bot never stores your key, and wallets lock after ${SESSION_TIMEOUT / 60000} idle minutes, so this payment will not be sent on its own. `
+                    + 'When it is due you will get a DM; unlock the vault wallet with `/wallet unlock` within 24 hours or that run is skipped.'
+            }
+        )
+        .setFooter({ text: 'You will get a DM for every run.' });
+
+    await ctx.reply({ embeds: [embed], ephemeral: true });
+};
+
+const handleScheduleList = async (ctx: CommandContext) => {
+    const payments = await getScheduledPayments(ctx.userId);
+    if (payments.length === 0) {
+        await ctx.reply({ content: 'You have no scheduled payments. Create one with `/schedule send`.', ephemeral: true });
+        return;
+    }
+
+    const embed = new EmbedBuilder()
+        .setColor(0x0099FF)
+        .setTitle('Scheduled Payments')
+        .addFields(payments.map(payment => ({
+            name: `${payment.id} · ${payment.status === 'paused' ? '⏸️ Paused' : '▶️ Active'} · ${describeRecurrence(payment.recurrence)}`,
+            value: [
+                describePayment(payment),
+                payment.status === 'active' ? `Next run: ${formatTime(payment.nextRunAt)}` : '',
+                payment.lastRunAt ? `Last run: ${formatTime(payment.lastRunAt)}` : '',
+                payment.lastError ? `Last error: ${payment.lastError.slice(0, 200)}` : ''
+            ].filter(Boolean).join('\n')
+        })));
+
+    await ctx.reply({ embeds: [embed], ephemeral: true });
+};
+
+const handleSchedulePause = async (ctx: CommandContext, paused: boolean) => {
+    const id = ctx.getString('id') ?? '';
+    const payment = await updateScheduledPayment(ctx.userId, id, entry => {
+        entry.status = paused ? 'paused' : 'active';
+        if (!paused && entry.nextRunAt < Date.now()) {
+            // Resuming does not replay the runs missed while paused
+            entry.nextRunAt = getNextRun(entry.recurrence, entry.nextRunAt, Date.now()) ?? Date.now();
+        }
+    });
+    if (!payment) {
+        await ctx.reply({ content: 'No scheduled payment with that ID. Use `/schedule list` to see yours.', ephemeral: true });
+        return;
+    }
+    await ctx.reply({
+        content: paused
+            ? `Scheduled payment ${payment.id} paused.`
+            : `Scheduled payment ${payment.id} resumed. Next run: ${formatTime(payment.nextRunAt)}`,
+        ephemeral: true
+    });
+};
+
+const handleScheduleCancel = async (ctx: CommandContext) => {
+    const removed = await removeScheduledPayment(ctx.userId, ctx.getString('id') ?? '');
+    await ctx.reply({
+        content: removed ? 'Scheduled payment cancelled.' : 'No scheduled payment with that ID. Use `/schedule list` to see yours.',
+        ephemeral: true
+    });
+};
+
+export const handleScheduleCommand = async (ctx: CommandContext) => {
+    Logger.info(`Schedule command (${ctx.subcommand}) triggered by user: ${ctx.userId}`);
+
+    switch (ctx.subcommand) {
+        case 'send':
+            return handleScheduleSend(ctx);
+        case 'pause':
+            return handleSchedulePause(ctx, true);
+        case 'resume':
+            return handleSchedulePause(ctx, false);
+        case 'cancel':
+            return handleScheduleCancel(ctx);
+        default:
+            return handleScheduleList(ctx);
+    }
+};
+
+const notifyOwner = async (client: Client<true>, userId: string, message: string | MessageCreateOptions): Promise<Message | undefined> => {
+    try {
+        const user = await client.users.fetch(userId);
+        return await user.send(message);
+    } catch (error) {
+        Logger.warn(`Failed to notify user ${userId} about a scheduled payment: ${error}`);
+        return undefined;
+    }
+};
+
+// After a run (or a skipped one) recurring payments move on and one-off payments stop
+const advanceSchedule = async (payment: ScheduledPayment, now: number, update: Partial<ScheduledPayment>, keepOnceSchedule: boolean) => {
+    const nextRunAt = getNextRun(payment.recurrence, payment.nextRunAt, now);
+    if (nextRunAt === undefined && !keepOnceSchedule) {
+        await removeScheduledPayment(payment.userId, payment.id);
+        return;
+    }
+    await updateScheduledPayment(payment.userId, payment.id, entry => {
+        Object.assign(entry, update);
+        if (nextRunAt === undefined) {
+            entry.status = 'paused';
+        } else {
+            entry.nextRunAt = nextRunAt;
+        }
+    });
+};
+
+const runScheduledPayment = async (client: Client<true>, payment: ScheduledPayment) => {
+    const now = Date.now();
+    const userSession = userSettings.get(payment.userId);
+    const unlocked = userSession?.privateKey && userSession.address === payment.fromAddress && userSession.network === payment.network;
+
+    if (!unlocked) {
+        if (now - payment.nextRunAt > LOCKED_GRACE_PERIOD) {
+            Logger.info(`Skipping scheduled payment ${payment.id}: wallet stayed locked`);
+            await advanceSchedule(payment, now, { lastError: 'Skipped: the vault wallet was locked', lockedNoticeFor: undefined }, true);
+            await notifyOwner(client, payment.userId, `⏭️ Scheduled payment \`${payment.id}\` (${describePayment(payment)}) was skipped because your vault wallet stayed locked for 24 hours.`);
+        } else if (payment.lockedNoticeFor !== payment.nextRunAt) {
+            await updateScheduledPayment(payment.userId, payment.id, entry => {
+                entry.lockedNoticeFor = payment.nextRunAt;
+            });
+            await notifyOwner(client, payment.userId, `🔒 Scheduled payment \`${payment.id}\` (${describePayment(payment)}) is due, but your vault wallet is locked. Unlock it with \`/wallet unlock\` within 24 hours and it will be sent.`);
+        }
+        return;
+    }
+
+    try {
+        const txId = await sendKaspa(payment.userId, BigInt(payment.amount), payment.toAddress, payment.network);
+        Logger.info(`Scheduled payment ${payment.id} sent in ${txId}`);
+        await advanceSchedule(payment, now, { lastRunAt: now, lastTxId: txId, lastError: undefined, lockedNoticeFor: undefined }, false);
+
+        const receipt = new EmbedBuilder()
+            .setColor(0x00FF00)
+            .setTitle('Scheduled Payment Sent')
+            .setDescription(describePayment(payment))
+            .addFields(
+                { name: 'ID', value: payment.id, inline: true },
+                { name: 'Repeats', value: describeRecurrence(payment.recurrence), inline: true },
+                { name: 'Transaction', value: getExplorerTxUrl(payment.network, txId) }
+            )
+            .setTimestamp();
+        const receiptMessage = await notifyOwner(client, payment.userId, { embeds: [receipt] });
+        if (receiptMessage) {
+            startTracking(receiptMessage, `Scheduled payment ${payment.id}`, payment.network, txId);
+        }
+    } catch (error) {
+        const reason = error instanceof AppError ? error.userMessage : String(error);
+        Logger.error(`Scheduled payment ${payment.id} failed: ${error}`);
+        await advanceSchedule(payment, now, { lastRunAt: now, lastError: reason, lockedNoticeFor: undefined }, true);
+        await notifyOwner(client, payment.userId, `❌ Scheduled payment \`${payment.id}\` (${describePayment(payment)}) failed: ${reason}${payment.recurrence.type === 'once' ? '\nIt has been paused; resume it with `/schedule resume` to try again.' : ''}`);
+    }
+};
+
+let schedulerBusy = false;
+
+/**
+ * Checks for due payments once a minute. Runs never overlap, so a slow send
+ * cannot make the same payment go out twice.
+ */
+export const startPaymentScheduler = (client: Client<true>): void => {
+    setInterval(async () => {
+        if (schedulerBusy) {
+            return;
+        }
+        schedulerBusy = true;
+        try {
+            for (const payment of await getDuePayments()) {
+                await runScheduledPayment(client, payment);
+            }
+        } catch (error) {
+            Logger.error(`Payment scheduler failed: ${error}`);
+        } finally {
+            schedulerBusy = false;
+        }
+    }, SCHEDULER_INTERVAL);
+    Logger.info('Payment scheduler started');
+};
+
+export const scheduleCommand: BotCommand = {
+    data: new SlashCommandBuilder()
+        .setName('schedule')
+        .setDescription('Schedule one-off or recurring KAS payments from your vault wallet')
+        .addSubcommand(subcommand => subcommand
+            .setName('send')
+            .setDescription('Schedule a payment, sent only while your vault wallet is unlocked')
+            .addStringOption(option => option
+                .setName('address')
+                .setDescription('Recipient Kaspa address')
+                .setRequired(true))
+            .addStringOption(option => option
+                .setName('amount')
+                .setDescription('Amount in KAS')
+                .setRequired(true))
+            .addStringOption(option => option
+                .setName('at')
+                .setDescription('When to pay (or start repeating), e.g. 2025-01-31 12:00 (UTC)'))
+            .addIntegerOption(option => option
+                .setName('every_days')
+                .setDescription('Repeat every N days')
+                .setMinValue(1))
+            .addStringOption(option => option
+                .setName('cron')
+                .setDescription('Repeat on a cron schedule in UTC, e.g. "0 12 * * 1" for Mondays at 12:00'))
+            .addStringOption(option => option
+                .setName('label')
+                .setDescription('Note to show in receipts, e.g. "Moderator pay"')))
+        .addSubcommand(subcommand => subcommand
+            .setName('list')
+            .setDescription('List your scheduled payments'))
+        .addSubcommand(subcommand => subcommand
+            .setName('pause')
+            .setDescription('Pause a scheduled payment')
+            .addStringOption(option => option
+                .setName('id')
+                .setDescription('Schedule ID from /schedule list')
+                .setRequired(true)))
+        .addSubcommand(subcommand => subcommand
+            .setName('resume')
+            .setDescription('Resume a paused scheduled payment')
+            .addStringOption(option => option
+                .setName('id')
+                .setDescription('Schedule ID from /schedule list')
+                .setRequired(true)))
+        .addSubcommand(subcommand => subcommand
+            .setName('cancel')
+            .setDescription('Cancel a scheduled payment')
+            .addStringOption(option => option
+                .setName('id')
+                .setDescription('Schedule ID from /schedule list')
+                .setRequired(true))),
+    execute: handleScheduleCommand,
+};
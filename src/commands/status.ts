@@ -1,23 +1,45 @@
-import { Message } from 'discord.js';
-import { getTokenInfo } from '../utils/tokenInfo';
-import { Network } from '../utils/userSettings';
+import { SlashCommandBuilder, AutocompleteInteraction } from 'discord.js';
+import { getTokenInfo, searchTickers } from '../utils/tokenInfo';
+import { NETWORK_CHOICES, parseNetworkArgument } from '../utils/networkConfig';
 import { Logger } from '../utils/logger';
-import { handleError, AppError } from '../utils/errorHandler';
+import { CommandContext } from '../utils/commandContext';
+import { BotCommand } from './registry';
 
-export const handleStatusCommand = async (message: Message, args: string[]) => {
-	if (args.length !== 1) {
-		await message.reply('Please provide a valid token ticker. Usage: !status <TICKER>');
+export const handleStatusCommand = async (ctx: CommandContext) => {
+	const ticker = ctx.getString('ticker')?.toUpperCase();
+	if (!ticker) {
+		await ctx.reply({ content: 'Please provide a valid token ticker. Usage: !status <TICKER> [MAIN|TN10|TN11]', ephemeral: true });
 		return;
 	}
 
-	const ticker = args[0].toUpperCase();
-	const network: Network = 'Mainnet';
+	const network = parseNetworkArgument(ctx.getString('network'));
 
-	try {
-		Logger.info(`Status command triggered for ticker: ${ticker} on network: ${network}`);
-		const tokenInfoEmbed = await getTokenInfo(ticker);
-		await message.reply({ embeds: [tokenInfoEmbed] });
-	} catch (error) {
-		await handleError(error, message.channel, 'handleStatusCommand');
-	}
-};
\ No newline at end of file
+	Logger.info(`Status command triggered for ticker: ${ticker} on network: ${network}`);
+	await ctx.defer();
+	const tokenInfoEmbed = await getTokenInfo(ticker, network);
+	await ctx.reply({ embeds: [tokenInfoEmbed] });
+};
+
+const handleStatusAutocomplete = async (interaction: AutocompleteInteraction) => {
+	const query = interaction.options.getFocused();
+	const network = parseNetworkArgument(interaction.options.getString('network') ?? undefined);
+	const tickers = await searchTickers(query, network);
+	await interaction.respond(tickers.map(tick => ({ name: tick, value: tick })));
+};
+
+export const statusCommand: BotCommand = {
+	data: new SlashCommandBuilder()
+		.setName('status')
+		.setDescription('Get token info for a specific KRC20 ticker')
+		.addStringOption(option => option
+			.setName('ticker')
+			.setDescription('Token ticker, e.g. NACHO')
+			.setRequired(true)
+			.setAutocomplete(true))
+		.addStringOption(option => option
+			.setName('network')
+			.setDescription('Network to query (defaults to Mainnet)')
+			.addChoices(...NETWORK_CHOICES)),
+	execute: handleStatusCommand,
+	autocomplete: handleStatusAutocomplete,
+};
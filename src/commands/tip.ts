@@ -0,0 +1,203 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, EmbedBuilder, MessageComponentInteraction, SlashCommandBuilder, User } from 'discord.js';
+import { sompiToKaspaStringWithSuffix } from '../../wasm/kaspa/kaspa';
+import { userSettings, Network } from '../utils/userSettings';
+import { walletSessions } from '../utils/walletSession';
+import { parseTip, sendTip, escrowFeeFunding, claimEscrows, refundExpiredEscrows, getEscrowsFor, EscrowRelease, Tip, ESCROW_EXPIRY_DAYS } from '../utils/tipping';
+import { getReceiveAddress, getReceiveAddresses } from '../utils/receiveAddresses';
+import { getExplorerTxUrl } from '../utils/networkConfig';
+import { startTracking } from '../utils/transactionTracker';
+import { checkRateLimit, getRateLimitRemainingTime } from '../utils/rateLimit';
+import { createButton } from '../utils/utils';
+import { formatAmount } from '../utils/amount';
+import { estimateInscriptionCost } from '../utils/krc20Inscription';
+import { Spend } from '../utils/spendingLimits';
+import { CommandContext } from '../utils/commandContext';
+import { Logger } from '../utils/logger';
+import { AppError } from '../utils/errorHandler';
+import { confirmStepUpInDm } from './wallet';
+import { BotCommand } from './registry';
+
+export const formatTipAmount = (amount: bigint, ticker: string | null, decimals: number) =>
+    `${formatAmount(amount, decimals)} ${ticker ?? 'KAS'}`;
+
+const formatTip = (tip: Tip) => formatTipAmount(tip.amount, tip.asset.ticker, tip.asset.decimals);
+
+const notifyEscrowedRecipient = async (recipient: User, tipper: User, tip: Tip) => {
+    try {
+        await recipient.send(`🎁 ${tipper.username} tipped you ${formatTip(tip)} on ${tip.network}. It is held for you until you register a receive address with \`/address set\`; unclaimed tips are returned after ${ESCROW_EXPIRY_DAYS} days.`);
+    } catch (error) {
+        Logger.warn(`Could not DM tip recipient ${recipient.id}: ${error}`);
+    }
+};
+
+export const handleTipCommand = async (ctx: CommandContext) => {
+    const tipperId = ctx.userId;
+    const channel = ctx.channel;
+    if (!ctx.guildId || !channel || !('send' in channel)) {
+        await ctx.reply({ content: 'Tips can only be sent in server channels.', ephemeral: true });
+        return;
+    }
+
+    const recipient = ctx.getUser('user');
+    const amountInput = ctx.getString('amount');
+    const assetInput = ctx.getString('asset');
+    if (!recipient || !amountInput || !assetInput) {
+        await ctx.reply({ content: 'Usage: `!tip @user <AMOUNT> <KAS|TICKER>`', ephemeral: true });
+        return;
+    }
+    if (recipient.id === tipperId || recipient.bot) {
+        await ctx.reply({ content: 'You can only tip other members.', ephemeral: true });
+        return;
+    }
+
+    const userSession = userSettings.get(tipperId);
+    if (!userSession?.privateKey) {
+        await ctx.reply({ content: 'Open or unlock your wallet with `/wallet` in a DM to the bot before tipping.', ephemeral: true });
+        return;
+    }
+
+    // Limits are per member and per server, so a busy server does not throttle another
+    const rateLimitKey = `${ctx.guildId}:${tipperId}`;
+    if (!checkRateLimit(rateLimitKey, 'tip')) {
+        const remainingTime = Math.ceil(getRateLimitRemainingTime(rateLimitKey, 'tip') / 1000);
+        await ctx.reply({ content: `You're tipping too often in this server. Please try again in ${remainingTime} seconds.`, ephemeral: true });
+        return;
+    }
+
+    const tip = await parseTip(userSession.network, amountInput, assetInput);
+    const recipientAddress = await getReceiveAddress(recipient.id, tip.network);
+
+    const confirmEmbed = new EmbedBuilder()
+        .setColor(0xFFA500)
+        .setTitle('Confirm Tip')
+        .setDescription(`<@${tipperId}>, send ${formatTip(tip)} to <@${recipient.id}>?`)
+        .addFields({ name: 'Network', value: tip.network, inline: true });
+
+    if (recipientAddress) {
+        confirmEmbed.addFields({ name: 'Recipient Address', value: recipientAddress });
+    } else {
+        confirmEmbed.addFields({ name: 'Escrow', value: `<@${recipient.id}> has no registered address, so the tip will be held until they register one.` });
+        const feeFunding = escrowFeeFunding(tip);
+        if (feeFunding > 0n) {
+            confirmEmbed.addFields({ name: 'Escrow Fee Funding', value: `${sompiToKaspaStringWithSuffix(feeFunding, userSettings.getNetworkType(tip.network))} (pays for releasing the tokens later)` });
+        }
+    }
+
+    const row = new ActionRowBuilder<ButtonBuilder>()
+        .addComponents(
+            createButton('confirm_tip', 'Send Tip', ButtonStyle.Success),
+            createButton('cancel_tip', 'Cancel', ButtonStyle.Secondary)
+        );
+
+    if (ctx.source === 'slash') {
+        await ctx.reply({ content: 'Confirm your tip with the buttons below.', ephemeral: true });
+    }
+    const confirmMessage = await channel.send({ embeds: [confirmEmbed], components: [row] });
+
+    let choice: MessageComponentInteraction;
+    try {
+        choice = await confirmMessage.awaitMessageComponent({
+            filter: (i: MessageComponentInteraction) => i.user.id === tipperId,
+            time: 60000
+        });
+        await choice.deferUpdate();
+    } catch {
+        await confirmMessage.edit({ content: 'Tip expired.', embeds: [], components: [] }).catch(() => undefined);
+        return;
+    }
+
+    if (choice.customId !== 'confirm_tip') {
+        await confirmMessage.edit({ content: 'Tip cancelled.', embeds: [], components: [] });
+        return;
+    }
+
+    const spend: Spend = tip.asset.ticker
+        ? { kind: 'transfer', amount: estimateInscriptionCost().fees + escrowFeeFunding(tip), destinations: recipientAddress ? [recipientAddress] : [] }
+        : { kind: 'send', amount: tip.amount, destinations: recipientAddress ? [recipientAddress] : [] };
+    try {
+        await confirmStepUpInDm(ctx.user, spend, { value: tip.amount, decimals: tip.asset.decimals, display: formatTip(tip) },
+            () => confirmMessage.edit({ content: '🔐 Check your DMs to confirm this tip.', embeds: [], components: [] }));
+    } catch (error) {
+        await confirmMessage.edit({ content: `❌ Tip cancelled: ${error instanceof AppError ? error.userMessage : 'please try again later.'}`, embeds: [], components: [] });
+        return;
+    }
+
+    await confirmMessage.edit({ content: `Sending ${formatTip(tip)} to <@${recipient.id}>...`, embeds: [], components: [] });
+    walletSessions.get(tipperId)?.touch();
+
+    try {
+        const outcome = await sendTip(tipperId, recipient.id, ctx.guildId, tip);
+        const receipt = new EmbedBuilder()
+            .setColor(0x00FF00)
+            .setTitle(outcome.escrowed ? '🎁 Tip Held in Escrow' : '💸 Tip Sent')
+            .setDescription(`<@${tipperId}> tipped <@${recipient.id}> **${formatTip(tip)}**`)
+            .addFields(
+                { name: 'Network', value: tip.network, inline: true },
+                { name: 'Transaction', value: outcome.explorerUrl }
+            )
+            .setTimestamp();
+        if (outcome.escrowed) {
+            receipt.setFooter({ text: 'Register a receive address with /address set to claim it.' });
+            await notifyEscrowedRecipient(recipient, ctx.user, tip);
+        }
+        await confirmMessage.edit({ content: '', embeds: [receipt] });
+        startTracking(confirmMessage, `Tip of ${formatTip(tip)}`, tip.network, outcome.txId, { krc20: Boolean(tip.asset.ticker) });
+    } catch (error) {
+        Logger.error(`Tip from ${tipperId} to ${recipient.id} failed: ${error}`);
+        await confirmMessage.edit(`❌ Tip failed: ${error instanceof AppError ? error.userMessage : 'please try again later.'}`);
+    }
+};
+
+export const formatEscrowReleases = (releases: EscrowRelease[], verb: string) => releases.map(({ escrow, txId, error }) => {
+    const label = formatTipAmount(BigInt(escrow.amount), escrow.ticker, escrow.decimals);
+    return error
+        ? `❌ ${label}: ${error}`
+        : `✅ ${label} ${verb}${txId ? `: ${getExplorerTxUrl(escrow.network, txId)}` : ''}`;
+});
+
+export const handleClaimCommand = async (ctx: CommandContext) => {
+    Logger.info(`Claim command triggered by user: ${ctx.userId}`);
+    await ctx.defer(true);
+
+    const addresses = await getReceiveAddresses(ctx.userId);
+    const lines: string[] = [];
+    for (const [network, address] of Object.entries(addresses) as [Network, string][]) {
+        lines.push(...formatEscrowReleases(await claimEscrows(ctx.userId, network, address), 'claimed'));
+    }
+    lines.push(...formatEscrowReleases(await refundExpiredEscrows(ctx.userId), `returned after ${ESCROW_EXPIRY_DAYS} days unclaimed`));
+
+    const unclaimed = (await getEscrowsFor(ctx.userId)).filter(escrow => !addresses[escrow.network]);
+    if (unclaimed.length > 0) {
+        const networks = [...new Set(unclaimed.map(escrow => escrow.network))].join(', ');
+        lines.push(`🎁 ${unclaimed.length} tip(s) are waiting for you on ${networks}. Register an address there with \`/address set\` to claim them.`);
+    }
+
+    await ctx.reply({ content: lines.length > 0 ? lines.join('\n').slice(0, 2000) : 'You have no tips to claim or refund.', ephemeral: true });
+};
+
+export const tipCommand: BotCommand = {
+    data: new SlashCommandBuilder()
+        .setName('tip')
+        .setDescription('Tip another member KAS or a KRC20 token from your open wallet')
+        .setDMPermission(false)
+        .addUserOption(option => option
+            .setName('user')
+            .setDescription('Member to tip')
+            .setRequired(true))
+        .addStringOption(option => option
+            .setName('amount')
+            .setDescription('Amount to tip')
+            .setRequired(true))
+        .addStringOption(option => option
+            .setName('asset')
+            .setDescription('KAS or a KRC20 ticker, e.g. NACHO')
+            .setRequired(true)),
+    execute: handleTipCommand,
+};
+
+export const claimCommand: BotCommand = {
+    data: new SlashCommandBuilder()
+        .setName('claim')
+        .setDescription('Claim tips held for you, or take back your own tips that went unclaimed'),
+    execute: handleClaimCommand,
+};
@@ -0,0 +1,181 @@
+import { ChannelType, DMChannel, Message, TextBasedChannel } from 'discord.js';
+import { userSettings } from '../utils/userSettings';
+import { walletSessions, WalletState } from '../utils/walletSession';
+import { hasVault, getVaultSummary, saveToVault, unlockVault, changeVaultPassphrase, deleteVault, validatePassphrase } from '../utils/walletVault';
+import { CommandContext } from '../utils/commandContext';
+import { Logger } from '../utils/logger';
+import { handleError, AppError } from '../utils/errorHandler';
+import { checkRateLimit, getRateLimitRemainingTime } from '../utils/rateLimit';
+import { promptWalletActions } from './wallet';
+
+// Passphrases are read verbatim from the DM; sanitizing would change them
+export const promptPassphrase = async (channel: DMChannel | TextBasedChannel, userId: string, prompt: string): Promise<string> => {
+    await channel.send(prompt);
+    const response = await channel.awaitMessages({
+        filter: (m: Message) => m.author.id === userId,
+        max: 1,
+        time: 60000,
+        errors: ['time']
+    });
+    return response.first()?.content || '';
+};
+
+const promptNewPassphrase = async (channel: DMChannel | TextBasedChannel, userId: string): Promise<string> => {
+    const passphrase = await promptPassphrase(channel, userId, 'Enter a vault passphrase (at least 8 characters). It cannot be recovered if you forget it:');
+    validatePassphrase(passphrase);
+    const confirmation = await promptPassphrase(channel, userId, 'Please enter the passphrase again to confirm:');
+    if (passphrase !== confirmation) {
+        throw new AppError('Passphrase mismatch', 'The passphrases did not match. Nothing was changed.', 'PASSPHRASE_MISMATCH');
+    }
+    return passphrase;
+};
+
+export const openVaultDM = async (ctx: CommandContext): Promise<DMChannel> => {
+    const channel = await ctx.user.createDM();
+    if (ctx.channel?.type !== ChannelType.DM) {
+        await ctx.reply({ content: "I've sent you a DM to continue privately.", ephemeral: true });
+    }
+    return channel;
+};
+
+/**
+ * Runs a DM prompt flow while the user is marked busy, so their replies are
+ * not mistaken for a request to open a new wallet session. Sessions created
+ * only for the prompt are ended afterwards unless a wallet was loaded.
+ */
+export const withVaultPrompt = async (channel: DMChannel | TextBasedChannel, userId: string, context: string, flow: () => Promise<void>): Promise<void> => {
+    const hadSession = walletSessions.has(userId);
+    const previousState = walletSessions.getState(userId);
+    if (hadSession && previousState !== WalletState.WALLET_ACTIONS) {
+        await channel.send('Please finish your current wallet action first.');
+        return;
+    }
+
+    walletSessions.getOrCreate(userId, channel);
+    walletSessions.setState(userId, WalletState.VAULT_PROMPT);
+
+    try {
+        await flow();
+    } catch (error) {
+        await handleError(error, channel, context);
+    } finally {
+        if (userSettings.get(userId)?.privateKey) {
+            walletSessions.setState(userId, WalletState.WALLET_ACTIONS);
+        } else {
+            await walletSessions.end(userId);
+        }
+    }
+};
+
+const checkVaultRateLimit = (userId: string) => {
+    if (!checkRateLimit(userId, 'vault')) {
+        const remainingTime = getRateLimitRemainingTime(userId, 'vault');
+        throw new AppError(
+            'Rate limit exceeded',
+            `Too many vault attempts. Please try again in ${Math.ceil(remainingTime / 1000)} seconds.`,
+            'RATE_LIMIT_EXCEEDED'
+        );
+    }
+};
+
+export const saveWalletToVault = async (channel: DMChannel | TextBasedChannel, userId: string) => {
+    Logger.info(`Saving wallet to vault for user: ${userId}`);
+    await withVaultPrompt(channel, userId, 'saveWalletToVault', async () => {
+        if (!userSettings.get(userId)?.privateKey) {
+            throw new AppError('Invalid Session', 'Open or unlock a wallet before saving it to your vault.', 'INVALID_SESSION');
+        }
+
+        if (await hasVault(userId)) {
+            await channel.send('⚠️ You already have a saved vault. Saving now will replace it with the wallet in this session.');
+        }
+
+        const passphrase = await promptNewPassphrase(channel, userId);
+        await saveToVault(userId, passphrase);
+        await channel.send('🔒 Your wallet has been encrypted and saved. After a restart or timeout, use `/wallet unlock` to open it again. For security, please delete your passphrase messages above.');
+    });
+};
+
+export const handleVaultSave = async (ctx: CommandContext) => {
+    const channel = await openVaultDM(ctx);
+    await saveWalletToVault(channel, ctx.userId);
+    if (userSettings.get(ctx.userId)?.privateKey) {
+        await promptWalletActions(channel, ctx.userId);
+    }
+};
+
+export const handleVaultUnlock = async (ctx: CommandContext) => {
+    const userId = ctx.userId;
+    Logger.info(`Vault unlock requested by user: ${userId}`);
+
+    if (userSettings.get(userId)?.privateKey) {
+        await ctx.reply({ content: 'Your wallet is already unlocked. Use `/wallet open` to show the menu.', ephemeral: true });
+        return;
+    }
+
+    const summary = await getVaultSummary(userId);
+    if (!summary) {
+        throw new AppError('No vault', 'You do not have a saved wallet vault. Open a wallet and choose "Save to Vault" first.', 'VAULT_NOT_FOUND');
+    }
+
+    const channel = await openVaultDM(ctx);
+    await withVaultPrompt(channel, userId, 'handleVaultUnlock', async () => {
+        checkVaultRateLimit(userId);
+        const passphrase = await promptPassphrase(channel, userId, `Enter the passphrase for your ${summary.network} vault (${summary.address}):`);
+        const { network, address } = await unlockVault(userId, passphrase);
+        await channel.send(`🔓 Vault unlocked on ${network}. Address: ${address}\nYour key stays in memory until you lock the wallet, end the session, or it times out.`);
+    });
+
+    if (userSettings.get(userId)?.privateKey) {
+        await promptWalletActions(channel, userId);
+    }
+};
+
+export const handleVaultLock = async (ctx: CommandContext) => {
+    const userId = ctx.userId;
+    Logger.info(`Vault lock requested by user: ${userId}`);
+
+    if (!walletSessions.has(userId)) {
+        await ctx.reply({ content: 'You have no open wallet session to lock.', ephemeral: true });
+        return;
+    }
+
+    await walletSessions.end(userId);
+    const vaultNote = await hasVault(userId) ? ' Use `/wallet unlock` to open it again.' : '';
+    await ctx.reply({ content: `🔒 Your wallet has been locked and its key erased from memory.${vaultNote}`, ephemeral: true });
+};
+
+export const handleVaultChangePassphrase = async (ctx: CommandContext) => {
+    const userId = ctx.userId;
+    Logger.info(`Vault passphrase change requested by user: ${userId}`);
+
+    if (!await hasVault(userId)) {
+        throw new AppError('No vault', 'You do not have a saved wallet vault.', 'VAULT_NOT_FOUND');
+    }
+
+    const channel = await openVaultDM(ctx);
+    await withVaultPrompt(channel, userId, 'handleVaultChangePassphrase', async () => {
+        checkVaultRateLimit(userId);
+        const currentPassphrase = await promptPassphrase(channel, userId, 'Enter your current vault passphrase:');
+        const newPassphrase = await promptNewPassphrase(channel, userId);
+        await changeVaultPassphrase(userId, currentPassphrase, newPassphrase);
+        await channel.send('✅ Your vault passphrase has been changed. For security, please delete your passphrase messages above.');
+    });
+};
+
+export const handleVaultDelete = async (ctx: CommandContext) => {
+    const userId = ctx.userId;
+    Logger.info(`Vault deletion requested by user: ${userId}`);
+
+    if (!await hasVault(userId)) {
+        throw new AppError('No vault', 'You do not have a saved wallet vault.', 'VAULT_NOT_FOUND');
+    }
+
+    const channel = await openVaultDM(ctx);
+    await withVaultPrompt(channel, userId, 'handleVaultDelete', async () => {
+        checkVaultRateLimit(userId);
+        await channel.send('⚠️ Deleting your vault is permanent. Make sure you have a backup of your seed phrase or private key.');
+        const passphrase = await promptPassphrase(channel, userId, 'Enter your vault passphrase to confirm deletion:');
+        await deleteVault(userId, passphrase);
+        await channel.send('🗑️ Your vault has been deleted. Any wallet open in this session is unaffected until it ends.');
+    });
+};
@@ -1,10 +1,12 @@
-import { Message, ActionRowBuilder, ButtonBuilder, ButtonStyle, ComponentType, DMChannel, MessageComponentInteraction, ChannelType, TextBasedChannel, MessageCollector } from 'discord.js';
+import { Message, ActionRowBuilder, ButtonBuilder, ButtonStyle, ComponentType, DMChannel, MessageComponentInteraction, ChannelType, TextBasedChannel, MessageCollector, SlashCommandBuilder, StringSelectMenuBuilder, AttachmentBuilder, User } from 'discord.js';
 import { generateNewWallet } from '../utils/generateNewWallet';
-import { importWalletFromPrivateKey } from '../utils/importWallet';
-import { sendKaspa } from '../utils/sendKaspa';
+import { importWalletFromPrivateKey, deriveWalletFromMnemonic, storeDerivedWallet } from '../utils/importWallet';
+import { sendKaspa, estimateSendKaspa, sweepKaspa, estimateSweepKaspa, sendKaspaBatch, estimateSendKaspaBatch, SendKaspaEstimate } from '../utils/sendKaspa';
+import { parsePaymentCsv, toPaymentOutputs, buildBatchReport, formatInvalidRows, MAX_BATCH_ROWS, MAX_BATCH_FILE_SIZE } from '../utils/batchPayment';
+import { getFeeBuckets, priorityFeeForFeerate, formatEstimatedTime } from '../utils/feeEstimate';
 import { getBalance } from '../utils/getBalance';
 import { userSettings, Network } from '../utils/userSettings';
-import { getRpcClient } from '../utils/rpcConnection';
+import { getRpcClient, resetTrackedAddresses } from '../utils/rpcConnection';
 import axios, { AxiosResponse } from 'axios';
 import { EmbedBuilder } from '@discordjs/builders';
 import lodash from 'lodash';
@@ -12,116 +14,112 @@ import { createButton } from '../utils/utils';
 import { Logger } from '../utils/logger';
 import { handleError, AppError } from '../utils/errorHandler';
 import { checkRateLimit, getRateLimitRemainingTime } from '../utils/rateLimit';
-import { validateAddress, validateAmount, sanitizeInput, validatePrivateKey, validateNetwork } from '../utils/inputValidation';
+import { validateAddress, sanitizeInput, validatePrivateKey, validateNetwork, normalizeMnemonic, validateMnemonicFormat } from '../utils/inputValidation';
+import { parseTokenAmount, formatAmount, KAS_DECIMALS } from '../utils/amount';
 import { retryableRequest, handleNetworkError } from '../utils/networkUtils';
-import { mintToken } from '../utils/mintToken';
-import { Address } from '../../wasm/kaspa/kaspa'; // Make sure to import Address from the correct path
-import { getTokenInfo } from '../utils/tokenInfo';
+import { transferToken } from '../utils/transferToken';
+import { estimateInscriptionCost, resolveInscriptionFees } from '../utils/krc20Inscription';
+import { deployToken, getDeploySpend, DeployParameters, DEPLOY_FEE, DEFAULT_DECIMALS } from '../utils/deployToken';
+import { Address, sompiToKaspaStringWithSuffix } from '../../wasm/kaspa/kaspa'; // Make sure to import Address from the correct path
+import { getTokenInfo, fetchTokenInfo, createDeployPreviewEmbed, TokenInfo } from '../utils/tokenInfo';
+import { runBatchMint, estimateMintCost, BatchMintProgress, BatchMintStopReason, MAX_MINT_COUNT } from '../utils/batchMint';
+import { getExplorerAddressUrl, getExplorerTxUrl } from '../utils/networkConfig';
+import { getTransactionHistory, HistoryEntry } from '../utils/transactionHistory';
+import { startTracking, startTrackingBatch } from '../utils/transactionTracker';
+import { getSpendingPolicy, assertSpendAllowed, requiresStepUp, verifyPin, Spend } from '../utils/spendingLimits';
+import { getReceiveAddresses, deriveNextReceiveAddress, discoverUsedAddresses, switchAccount, MAX_ADDRESSES_PER_CHAIN } from '../utils/hdWallet';
+import { walletSessions, WalletState } from '../utils/walletSession';
+import { createPaymentRequest, createQrCode, getPaymentRequests, MAX_MEMO_LENGTH } from '../utils/paymentRequests';
+import { CommandContext } from '../utils/commandContext';
+import { BotCommand } from './registry';
+import { handleVaultUnlock, handleVaultLock, handleVaultSave, handleVaultChangePassphrase, handleVaultDelete, saveWalletToVault } from './vault';
 
 const { debounce } = lodash;
 
-enum WalletState {
-  IDLE,
-  NETWORK_SELECTION,
-  WALLET_OPTIONS,
-  WALLET_ACTIONS,
-  SENDING_KASPA,
-  CHECKING_BALANCE,
-  VIEWING_HISTORY,
-  IMPORTING_WALLET
-}
-
-const userWalletStates = new Map<string, WalletState>();
-let lastWalletActionsMessage: Message | null = null;
-
-export const handleWalletCommand = async (message: Message) => {
-    const userId = message.author.id;
-    Logger.info(`Wallet command triggered by user: ${userId} in channel type: ${message.channel.type}`);
-
-    let channel: DMChannel | TextBasedChannel;
-    if (message.channel.type === ChannelType.DM) {
-        channel = message.channel;
-    } else {
-        channel = await message.author.createDM();
-        await message.reply("I've sent you a DM to start your wallet session!");
-    }
-
-    const currentState = userWalletStates.get(userId) || WalletState.IDLE;
-
-    // Ignore messages if the user is in these states
-    if ([WalletState.SENDING_KASPA, WalletState.IMPORTING_WALLET].includes(currentState)) {
-        Logger.info(`Ignoring message for user ${userId} in state ${currentState}`);
+export const handleWalletCommand = async (ctx: CommandContext) => {
+    const userId = ctx.userId;
+    Logger.info(`Wallet command triggered by user: ${userId} via ${ctx.source}`);
+
+    switch (ctx.subcommand) {
+        case 'unlock':
+            return handleVaultUnlock(ctx);
+        case 'lock':
+            return handleVaultLock(ctx);
+        case 'save':
+            return handleVaultSave(ctx);
+        case 'change-passphrase':
+            return handleVaultChangePassphrase(ctx);
+        case 'delete-vault':
+            return handleVaultDelete(ctx);
+    }
+
+    if (!checkRateLimit(userId, 'walletCommand')) {
+        const remainingTime = getRateLimitRemainingTime(userId, 'walletCommand');
+        throw new AppError(
+            'Rate limit exceeded',
+            `You're starting wallet sessions too frequently. Please try again in ${Math.ceil(remainingTime / 1000)} seconds.`,
+            'RATE_LIMIT_EXCEEDED'
+        );
+    }
+
+    const channel = await ctx.user.createDM();
+    if (ctx.channel?.type !== ChannelType.DM) {
+        await ctx.reply({ content: "I've sent you a DM to start your wallet session!", ephemeral: true });
+    }
+
+    const existingSession = walletSessions.get(userId);
+    const currentState = walletSessions.getState(userId);
+
+    // Ignore messages while a prompt is waiting for this user's input
+    if (existingSession && currentState !== WalletState.WALLET_ACTIONS) {
+        Logger.info(`Ignoring wallet command for user ${userId} in state ${WalletState[currentState]}`);
         return;
     }
 
     try {
-        const userSession = userSettings.get(userId);
+        const session = walletSessions.getOrCreate(userId, channel);
+        session.touch();
+
         switch (currentState) {
             case WalletState.IDLE:
                 await channel.send("Welcome to your private Kat Wallet Session. Let's start by choosing which Network you'll be using.");
                 await promptNetworkSelection(channel, userId);
                 break;
-            case WalletState.NETWORK_SELECTION:
-                await promptNetworkSelection(channel, userId);
-                break;
-            case WalletState.WALLET_OPTIONS:
-                if (userSession && userSession.network) {
-                    await promptWalletOptions(channel, userId, userSession.network);
-                } else {
-                    await promptNetworkSelection(channel, userId);
-                }
-                break;
             case WalletState.WALLET_ACTIONS:
-                try {
-                    const interaction = await message.awaitMessageComponent({
-                        filter: i => i.user.id === userId,
-                        time: 300000
-                    });
-
-                    await interaction.deferUpdate();
-
-                    switch (interaction.customId) {
-                        case 'send_kaspa':
-                            await sendKaspaPrompt(channel, userId);
-                            break;
-                        case 'check_balance':
-                            await checkBalance(channel, userId);
-                            break;
-                        case 'transaction_history':
-                            await showTransactionHistory(channel, userId);
-                            break;
-                        case 'token_info':
-                            await showTokenInfo(channel, userId);
-                            break;
-                        case 'help':
-                            await showHelpMessage(channel, userId);
-                            break;
-                        case 'clear_chat':
-                            await clearChatHistory(channel, userId);
-                            break;
-                        case 'back':
-                            userWalletStates.set(userId, WalletState.NETWORK_SELECTION);
-                            await promptNetworkSelection(channel, userId);
-                            return;
-                        case 'end_session':
-                            await endSession(channel, userId);
-                            return; // Exit the function without calling promptWalletActions again
-                    }
-                } catch (error) {
-                    Logger.error(`Interaction failed for user ${userId}: ${error}`);
-                    await channel.send('The interaction failed or timed out. Please try again.');
-                }
+                // Re-post the menu at the bottom of the DM instead of opening a second session
+                await promptWalletActions(channel, userId);
                 break;
-            default:
-                Logger.warn(`Unexpected state for user ${userId}: ${currentState}`);
-                userWalletStates.set(userId, WalletState.IDLE);
-                await promptNetworkSelection(channel, userId);
         }
     } catch (error) {
         await handleError(error, channel, 'handleWalletCommand');
     }
 };
 
+export const walletCommand: BotCommand = {
+    data: new SlashCommandBuilder()
+        .setName('wallet')
+        .setDescription('Open your private Kat Wallet session in DMs')
+        .addSubcommand(subcommand => subcommand
+            .setName('open')
+            .setDescription('Open your private Kat Wallet session in DMs'))
+        .addSubcommand(subcommand => subcommand
+            .setName('unlock')
+            .setDescription('Unlock your saved wallet vault with its passphrase'))
+        .addSubcommand(subcommand => subcommand
+            .setName('lock')
+            .setDescription('Lock your wallet and erase its key from memory'))
+        .addSubcommand(subcommand => subcommand
+            .setName('save')
+            .setDescription('Encrypt the open wallet and save it to your vault'))
+        .addSubcommand(subcommand => subcommand
+            .setName('change-passphrase')
+            .setDescription('Change your wallet vault passphrase'))
+        .addSubcommand(subcommand => subcommand
+            .setName('delete-vault')
+            .setDescription('Permanently delete your saved wallet vault')),
+    execute: handleWalletCommand,
+};
+
 const promptNetworkSelection = async (channel: DMChannel | TextBasedChannel, userId: string) => {
     Logger.info(`Starting network selection for user: ${userId}`);
 
@@ -170,7 +168,7 @@ const promptNetworkSelection = async (channel: DMChannel | TextBasedChannel, use
         await channel.send(`You've selected ${selectedNetwork}. Let's set up your wallet.`);
         
         // Set the state to WALLET_OPTIONS after network selection
-        userWalletStates.set(userId, WalletState.WALLET_OPTIONS);
+        walletSessions.setState(userId, WalletState.WALLET_OPTIONS);
         
         // Prompt for wallet options
         await promptWalletOptions(channel, userId, selectedNetwork);
@@ -180,7 +178,7 @@ const promptNetworkSelection = async (channel: DMChannel | TextBasedChannel, use
             'Network selection timed out. Please use the !wallet command again to restart.',
             'NETWORK_SELECTION_TIMEOUT'
         ), channel, 'promptNetworkSelection');
-        userWalletStates.delete(userId);
+        await walletSessions.end(userId);
     }
 };
 
@@ -195,13 +193,14 @@ const promptWalletOptions = async (channel: DMChannel | TextBasedChannel, userId
         const row = new ActionRowBuilder<ButtonBuilder>()
             .addComponents(
                 createButton('create', 'Create New Wallet', ButtonStyle.Primary),
-                createButton('import', 'Import Existing Wallet', ButtonStyle.Secondary)
+                createButton('import', 'Import Private Key', ButtonStyle.Secondary),
+                createButton('import_mnemonic', 'Import Seed Phrase', ButtonStyle.Secondary)
             );
 
         const message = await channel.send({ embeds: [embed], components: [row] });
 
         const filter = (i: MessageComponentInteraction) => 
-            ['create', 'import'].includes(i.customId) && i.user.id === userId;
+            ['create', 'import', 'import_mnemonic'].includes(i.customId) && i.user.id === userId;
 
         const interaction = await message.awaitMessageComponent({ filter, time: 300000 });
         await interaction.deferUpdate();
@@ -211,12 +210,14 @@ const promptWalletOptions = async (channel: DMChannel | TextBasedChannel, userId
 
         if (interaction.customId === 'create') {
             await createNewWallet(channel, userId, network);
+        } else if (interaction.customId === 'import_mnemonic') {
+            await importWalletFromSeedPhrase(channel, userId, network);
         } else {
             await importExistingWallet(channel, userId, network);
         }
     } catch (error) {
         await handleError(error, channel, 'promptWalletOptions');
-        userWalletStates.delete(userId);
+        await walletSessions.end(userId);
     }
 };
 
@@ -246,7 +247,7 @@ const createNewWallet = async (channel: DMChannel | TextBasedChannel, userId: st
 For security, once you have a backup, you can delete the messages above by clicking "Clear Chat" in the menu below.`);
 
         // Set the state to WALLET_ACTIONS
-        userWalletStates.set(userId, WalletState.WALLET_ACTIONS);
+        walletSessions.setState(userId, WalletState.WALLET_ACTIONS);
 
         // Prompt for wallet actions
         await promptWalletActions(channel, userId);
@@ -257,14 +258,14 @@ For security, once you have a backup, you can delete the messages above by click
             'WALLET_CREATION_ERROR'
         ), channel, 'createNewWallet');
         // If there's an error, set the state back to WALLET_OPTIONS
-        userWalletStates.set(userId, WalletState.WALLET_OPTIONS);
+        walletSessions.setState(userId, WalletState.WALLET_OPTIONS);
         await promptWalletOptions(channel, userId, network);
     }
 };
 
 const importExistingWallet = async (channel: DMChannel | TextBasedChannel, userId: string, network: Network) => {
     Logger.info(`Importing wallet for user: ${userId}`);
-    userWalletStates.set(userId, WalletState.IMPORTING_WALLET);
+    walletSessions.setState(userId, WalletState.IMPORTING_WALLET);
 
     try {
         await channel.send('Please enter your private key:');
@@ -286,7 +287,7 @@ const importExistingWallet = async (channel: DMChannel | TextBasedChannel, userI
         await channel.send(`Your wallet has been imported successfully. Address: ${walletInfo.address}`);
 
         // Set the state to WALLET_ACTIONS after successful import
-        userWalletStates.set(userId, WalletState.WALLET_ACTIONS);
+        walletSessions.setState(userId, WalletState.WALLET_ACTIONS);
         Logger.info(`State set to WALLET_ACTIONS for user: ${userId}`);
 
         // Prompt for wallet actions
@@ -294,23 +295,114 @@ const importExistingWallet = async (channel: DMChannel | TextBasedChannel, userI
     } catch (error) {
         await handleError(error, channel, 'importExistingWallet');
         // If there's an error, set the state back to WALLET_OPTIONS
-        userWalletStates.set(userId, WalletState.WALLET_OPTIONS);
+        walletSessions.setState(userId, WalletState.WALLET_OPTIONS);
         await promptWalletOptions(channel, userId, network);
     }
 };
 
-const promptWalletActions = async (channel: DMChannel | TextBasedChannel, userId: string) => {
-    Logger.info(`Prompting wallet actions for user: ${userId}`);
-    userWalletStates.set(userId, WalletState.WALLET_ACTIONS);
+const importWalletFromSeedPhrase = async (channel: DMChannel | TextBasedChannel, userId: string, network: Network) => {
+    Logger.info(`Importing wallet from seed phrase for user: ${userId}`);
+    walletSessions.setState(userId, WalletState.IMPORTING_WALLET);
 
-    // Delete the previous Wallet Actions message if it exists
-    if (lastWalletActionsMessage) {
-        try {
-            await lastWalletActionsMessage.delete();
-        } catch (error) {
-            Logger.warn(`Failed to delete previous Wallet Actions message: ${error}`);
+    try {
+        if (!checkRateLimit(userId, 'importWallet')) {
+            const remainingTime = getRateLimitRemainingTime(userId, 'importWallet');
+            throw new AppError(
+                'Rate limit exceeded',
+                `You're importing wallets too frequently. Please try again in ${Math.ceil(remainingTime / 1000)} seconds.`,
+                'RATE_LIMIT_EXCEEDED'
+            );
+        }
+
+        await channel.send('Please enter your 12 or 24 word seed phrase, with the words separated by spaces:');
+        const phraseResponse = await channel.awaitMessages({
+            filter: (m: Message) => m.author.id === userId,
+            max: 1,
+            time: 120000,
+            errors: ['time']
+        });
+        const phrase = normalizeMnemonic(phraseResponse.first()?.content || '');
+        if (!validateMnemonicFormat(phrase)) {
+            throw new AppError(
+                'Invalid Seed Phrase',
+                'That is not a valid seed phrase: it must be 12 or 24 words made of lowercase letters, separated by spaces. Nothing was imported; please delete your message and try again.',
+                'INVALID_MNEMONIC'
+            );
+        }
+
+        // The passphrase is read verbatim: sanitizing it would derive a different wallet
+        await channel.send('If your wallet uses a BIP39 passphrase (sometimes called the 25th word), enter it now. Otherwise type `none`:');
+        const passphraseResponse = await channel.awaitMessages({
+            filter: (m: Message) => m.author.id === userId,
+            max: 1,
+            time: 60000,
+            errors: ['time']
+        });
+        const passphraseInput = passphraseResponse.first()?.content || '';
+        const passphrase = passphraseInput.trim().toLowerCase() === 'none' ? undefined : passphraseInput;
+
+        const indexInput = await awaitUserInput(channel, userId, 'Enter the account and address index as `account/index` (e.g. `0/3`), or `default` for the first address (`0/0`):');
+        let accountIndex = 0;
+        let addressIndex = 0;
+        if (indexInput.toLowerCase() !== 'default') {
+            const match = indexInput.match(/^(\d+)\/(\d+)$/);
+            if (!match) {
+                throw new AppError('Invalid Index', 'Please enter the indexes as `account/index`, for example `0/0`.', 'INVALID_DERIVATION_INDEX');
+            }
+            accountIndex = parseInt(match[1], 10);
+            addressIndex = parseInt(match[2], 10);
+        }
+
+        const wallet = deriveWalletFromMnemonic(phrase, passphrase, accountIndex, addressIndex, network);
+
+        const confirmEmbed = new EmbedBuilder()
+            .setColor(0x0099FF)
+            .setTitle('Confirm Imported Address')
+            .setDescription('Is this the address you expected? If not, check your seed phrase, passphrase and indexes.')
+            .addFields(
+                { name: 'Address', value: wallet.address },
+                { name: 'Derivation Path', value: wallet.derivationPath }
+            )
+            .setFooter({ text: `Network: ${network}` });
+
+        const confirmRow = new ActionRowBuilder<ButtonBuilder>()
+            .addComponents(
+                createButton('confirm_import', 'Use This Address', ButtonStyle.Success),
+                createButton('cancel_import', 'Cancel', ButtonStyle.Danger)
+            );
+
+        const confirmMessage = await channel.send({ embeds: [confirmEmbed], components: [confirmRow] });
+        const confirmation = await confirmMessage.awaitMessageComponent({
+            filter: (i: MessageComponentInteraction) => i.user.id === userId && ['confirm_import', 'cancel_import'].includes(i.customId),
+            time: 60000
+        });
+        await confirmation.deferUpdate();
+        await confirmMessage.edit({ components: [] }).catch(error => Logger.error(`Failed to remove import buttons: ${error}`));
+
+        if (confirmation.customId !== 'confirm_import') {
+            throw new AppError('Import cancelled', 'Seed phrase import cancelled.', 'IMPORT_CANCELLED');
         }
+
+        storeDerivedWallet(wallet, userId, network);
+        await channel.send(`Your wallet has been imported successfully. Address: ${wallet.address}\nFor security, please delete your message containing the seed phrase.`);
+
+        walletSessions.setState(userId, WalletState.WALLET_ACTIONS);
+        await promptWalletActions(channel, userId);
+    } catch (error) {
+        await handleError(error, channel, 'importWalletFromSeedPhrase');
+        walletSessions.setState(userId, WalletState.WALLET_OPTIONS);
+        await promptWalletOptions(channel, userId, network);
+    }
+};
+
+export const promptWalletActions = async (channel: DMChannel | TextBasedChannel, userId: string) => {
+    Logger.info(`Prompting wallet actions for user: ${userId}`);
+    const session = walletSessions.get(userId);
+    if (!session) {
+        Logger.warn(`No wallet session found for user: ${userId}`);
+        return;
     }
+    walletSessions.setState(userId, WalletState.WALLET_ACTIONS);
 
     const row1 = new ActionRowBuilder<ButtonBuilder>()
         .addComponents(
@@ -332,26 +424,37 @@ const promptWalletActions = async (channel: DMChannel | TextBasedChannel, userId
         .addComponents(
             createButton('go_back', 'Go Back', ButtonStyle.Secondary),
             createButton('help_menu', 'Help Menu', ButtonStyle.Secondary),
+            createButton('save_vault', 'Save to Vault', ButtonStyle.Success),
             createButton('clear_chat', 'Clear Chat', ButtonStyle.Danger),
             createButton('end_session', 'End Session', ButtonStyle.Danger)
         );
 
+    const row4 = new ActionRowBuilder<ButtonBuilder>()
+        .addComponents(
+            createButton('batch_send', 'Batch Send', ButtonStyle.Primary),
+            createButton('sweep_wallet', 'Sweep Wallet', ButtonStyle.Danger)
+        );
+
     const embed = new EmbedBuilder()
         .setColor(0x0099FF)
         .setTitle('Wallet Actions')
         .setDescription('What would you like to do?');
 
-    const message = await channel.send({ embeds: [embed], components: [row1, row2, row3] });
-    lastWalletActionsMessage = message;
+    const message = await channel.send({ embeds: [embed], components: [row1, row2, row3, row4] });
+    await session.replaceMenuMessage(message);
 
+    // Expiry is driven by the session's idle timer rather than a collector timeout
     const collector = message.createMessageComponentCollector({
-        filter: i => i.user.id === userId,
-        time: 300000
+        filter: i => i.user.id === userId
     });
+    session.trackCollector(collector);
 
     collector.on('collect', async (interaction) => {
         try {
             await interaction.deferUpdate();
+            session.touch();
+            // The menu is re-posted after every action, so this collector's job is done
+            collector.stop('handled');
 
             switch (interaction.customId) {
                 case 'check_balance':
@@ -366,6 +469,12 @@ const promptWalletActions = async (channel: DMChannel | TextBasedChannel, userId
                 case 'transaction_history':
                     await showTransactionHistory(channel, userId);
                     break;
+                case 'batch_send':
+                    await batchSendPrompt(channel, userId);
+                    break;
+                case 'sweep_wallet':
+                    await sendKaspaPrompt(channel, userId, true);
+                    break;
                 case 'token_info':
                     await showTokenInfo(channel, userId);
                     break;
@@ -379,19 +488,21 @@ const promptWalletActions = async (channel: DMChannel | TextBasedChannel, userId
                     await deployTokenPrompt(channel, userId);
                     break;
                 case 'go_back':
-                    userWalletStates.set(userId, WalletState.NETWORK_SELECTION);
+                    walletSessions.setState(userId, WalletState.NETWORK_SELECTION);
+                    await session.replaceMenuMessage(null);
                     await promptNetworkSelection(channel, userId);
-                    collector.stop();
                     return;
                 case 'help_menu':
                     await showHelpMessage(channel, userId);
                     break;
+                case 'save_vault':
+                    await saveWalletToVault(channel, userId);
+                    break;
                 case 'clear_chat':
                     await clearChatHistory(channel, userId);
                     break;
                 case 'end_session':
                     await endSession(channel, userId);
-                    collector.stop();
                     return;
             }
 
@@ -403,17 +514,126 @@ const promptWalletActions = async (channel: DMChannel | TextBasedChannel, userId
         }
     });
 
-    collector.on('end', async (collected, reason) => {
-        if (reason === 'time') {
-            await channel.send('The wallet session has timed out due to inactivity. Please use the !wallet command to start a new session.');
-            userWalletStates.delete(userId);
+    collector.on('end', () => session.untrackCollector(collector));
+};
+
+/**
+ * Second factor for spends over the user's step-up threshold: their spending
+ * PIN, or the amount typed again when they have not set one.
+ */
+export const confirmStepUp = async (channel: DMChannel | TextBasedChannel, userId: string, spend: Spend, expected: { value: bigint; decimals: number; display: string }) => {
+    const policy = await getSpendingPolicy(userId);
+    if (!requiresStepUp(policy, spend)) {
+        return;
+    }
+
+    if (policy.pin) {
+        if (!checkRateLimit(userId, 'spendingPin')) {
+            const remainingTime = getRateLimitRemainingTime(userId, 'spendingPin');
+            throw new AppError('Rate limit exceeded', `Too many PIN attempts. Please try again in ${Math.ceil(remainingTime / 1000)} seconds.`, 'RATE_LIMIT_EXCEEDED');
         }
-    });
+        const pin = await awaitUserInput(channel, userId, '🔐 This is over your step-up threshold. Enter your spending PIN to continue:');
+        if (!await verifyPin(policy, pin)) {
+            throw new AppError('Wrong PIN', 'That spending PIN is not correct. Nothing was sent.', 'INVALID_PIN');
+        }
+        return;
+    }
+
+    const typed = await awaitUserInput(channel, userId, `🔐 This is over your step-up threshold. Type the amount again (${expected.display}) to confirm:`);
+    let matches = false;
+    try {
+        // The amount is shown with its unit ("12.5 KAS"), so accept it typed back that way
+        matches = parseTokenAmount(typed.replace(/\s*[a-z]+$/i, ''), expected.decimals) === expected.value;
+    } catch {
+        // Anything that is not an amount simply does not match
+    }
+    if (!matches) {
+        throw new AppError('Step-up failed', 'The amount you typed does not match. Nothing was sent.', 'STEP_UP_FAILED');
+    }
+};
+
+/**
+ * Step-up for spends confirmed in a server channel. The PIN or amount is asked
+ * for in the user's DMs, and `onPrompt` runs first so the channel can point there.
+ */
+export const confirmStepUpInDm = async (user: User, spend: Spend, expected: { value: bigint; decimals: number; display: string }, onPrompt: () => Promise<unknown>) => {
+    if (!requiresStepUp(await getSpendingPolicy(user.id), spend)) {
+        return;
+    }
+    await onPrompt();
+    await confirmStepUp(await user.createDM(), user.id, spend, expected);
+};
+
+const formatSompi = (sompi: bigint, network: Network): string =>
+    sompiToKaspaStringWithSuffix(sompi, userSettings.getNetworkType(network));
+
+/**
+ * Offers the node's Low/Normal/Fast fee buckets or a custom priority fee.
+ * Returns the priority fee in sompi, or null if the user cancelled.
+ */
+const selectPriorityFee = async (channel: DMChannel | TextBasedChannel, userId: string, network: Network, estimateWithFee: (priorityFee: bigint) => Promise<SendKaspaEstimate>): Promise<bigint | null> => {
+    const [buckets, baseEstimate] = await Promise.all([
+        getFeeBuckets(userId, network),
+        estimateWithFee(0n)
+    ]);
+    const feeByBucket = new Map(buckets.map(bucket => [bucket.priority, priorityFeeForFeerate(bucket.feerate, baseEstimate.mass)]));
+
+    const feeEmbed = new EmbedBuilder()
+        .setColor(0x0099FF)
+        .setTitle('Select Transaction Priority')
+        .setDescription(`Estimated mass: ${baseEstimate.mass.toString()} grams. The priority fee is paid on top of the minimum network fee of ${formatSompi(baseEstimate.fees, network)}.`)
+        .addFields(buckets.map(bucket => ({
+            name: `${bucket.priority.charAt(0).toUpperCase()}${bucket.priority.slice(1)} (${formatEstimatedTime(bucket.estimatedSeconds)})`,
+            value: `${bucket.feerate.toFixed(2)} sompi/gram · +${formatSompi(feeByBucket.get(bucket.priority)!, network)}`,
+            inline: true
+        })));
+
+    const feeRow = new ActionRowBuilder<ButtonBuilder>()
+        .addComponents(
+            createButton('fee_low', 'Low', ButtonStyle.Secondary),
+            createButton('fee_normal', 'Normal', ButtonStyle.Primary),
+            createButton('fee_fast', 'Fast', ButtonStyle.Secondary),
+            createButton('fee_custom', 'Custom', ButtonStyle.Secondary),
+            createButton('cancel_send', 'Cancel', ButtonStyle.Danger)
+        );
+
+    const feeMessage = await channel.send({ embeds: [feeEmbed], components: [feeRow] });
+
+    let choice: MessageComponentInteraction;
+    try {
+        choice = await feeMessage.awaitMessageComponent({
+            filter: (i: MessageComponentInteraction) => i.user.id === userId,
+            time: 60000
+        });
+        await choice.deferUpdate();
+    } finally {
+        await feeMessage.delete().catch(error => Logger.error(`Failed to delete fee selection message: ${error}`));
+    }
+    walletSessions.get(userId)?.touch();
+
+    switch (choice.customId) {
+        case 'fee_low':
+            return feeByBucket.get('low')!;
+        case 'fee_normal':
+            return feeByBucket.get('normal')!;
+        case 'fee_fast':
+            return feeByBucket.get('fast')!;
+        case 'fee_custom': {
+            const customFee = await awaitUserInput(channel, userId, 'Please enter the priority fee in KAS (for example 0.0001):');
+            return parseTokenAmount(customFee, KAS_DECIMALS, { allowZero: true });
+        }
+        default:
+            return null;
+    }
 };
 
-const sendKaspaPrompt = async (channel: DMChannel | TextBasedChannel, userId: string) => {
-    Logger.info(`Starting send Kaspa prompt for user: ${userId}`);
-    userWalletStates.set(userId, WalletState.SENDING_KASPA);
+/**
+ * Sends KAS to an address. With `sweep` set (or when the user answers `max`)
+ * the full spendable balance minus fees is sent instead of a fixed amount.
+ */
+const sendKaspaPrompt = async (channel: DMChannel | TextBasedChannel, userId: string, sweep: boolean = false) => {
+    Logger.info(`Starting ${sweep ? 'sweep' : 'send Kaspa'} prompt for user: ${userId}`);
+    walletSessions.setState(userId, WalletState.SENDING_KASPA);
 
     try {
         // Retrieve user's network
@@ -424,7 +644,7 @@ const sendKaspaPrompt = async (channel: DMChannel | TextBasedChannel, userId: st
         const network = userSession.network;
 
         // Ask for recipient address
-        await channel.send('Please enter the recipient\'s Kaspa address:');
+        await channel.send(sweep ? 'Please enter the Kaspa address to sweep this wallet\'s entire balance to:' : 'Please enter the recipient\'s Kaspa address:');
         const addressResponse = await channel.awaitMessages({
             filter: (m: Message) => m.author.id === userId,
             max: 1,
@@ -433,34 +653,64 @@ const sendKaspaPrompt = async (channel: DMChannel | TextBasedChannel, userId: st
         });
         const recipientAddress = sanitizeInput(addressResponse.first()?.content || '');
 
-        if (!validateAddress(recipientAddress)) {
-            throw new AppError('Invalid Address', 'The recipient address you entered is invalid.', 'INVALID_ADDRESS');
+        validateAddress(recipientAddress, network);
+
+        let sendMax = sweep;
+        let amountSompi = 0n;
+        if (!sweep) {
+            // Ask for amount
+            await channel.send('Please enter the amount of KAS to send, or `max` to send your full balance minus fees:');
+            const amountResponse = await channel.awaitMessages({
+                filter: (m: Message) => m.author.id === userId,
+                max: 1,
+                time: 60000,
+                errors: ['time']
+            });
+            const amount = sanitizeInput(amountResponse.first()?.content || '');
+
+            if (amount.toLowerCase() === 'max') {
+                sendMax = true;
+            } else {
+                amountSompi = parseTokenAmount(amount, KAS_DECIMALS);
+            }
         }
 
-        // Ask for amount
-        await channel.send('Please enter the amount of KAS to send:');
-        const amountResponse = await channel.awaitMessages({
-            filter: (m: Message) => m.author.id === userId,
-            max: 1,
-            time: 60000,
-            errors: ['time']
-        });
-        const amount = sanitizeInput(amountResponse.first()?.content || '');
+        const estimateWithFee = (fee: bigint) => sendMax
+            ? estimateSweepKaspa(userId, recipientAddress, network, fee)
+            : estimateSendKaspa(userId, amountSompi, recipientAddress, network, fee);
 
-        if (!validateAmount(amount)) {
-            throw new AppError('Invalid Amount', 'The amount you entered is invalid.', 'INVALID_AMOUNT');
+        const priorityFee = await selectPriorityFee(channel, userId, network, estimateWithFee);
+        if (priorityFee === null) {
+            await channel.send('Transaction cancelled.');
+            return;
         }
 
+        // Dry run with the chosen fee so the user confirms the exact debit
+        const estimate = await estimateWithFee(priorityFee);
+        const spend: Spend = { kind: 'send', amount: estimate.totalDebit, destinations: [recipientAddress] };
+        await assertSpendAllowed(userId, spend);
+
         // Confirm transaction
         const confirmEmbed = new EmbedBuilder()
-            .setColor(0x0099FF)
-            .setTitle('Confirm Transaction')
-            .setDescription('Please confirm the transaction details:')
+            .setColor(sendMax ? 0xFFA500 : 0x0099FF)
+            .setTitle(sendMax ? 'Confirm Sweep' : 'Confirm Transaction')
+            .setDescription(sendMax
+                ? '⚠️ This sends your **entire** spendable balance, leaving this wallet empty. Please confirm the details:'
+                : 'Please confirm the transaction details:')
             .addFields(
-                { name: 'Amount', value: `${amount} KAS` },
-                { name: 'Recipient Address', value: recipientAddress }
+                { name: sendMax ? 'Amount Received' : 'Amount', value: formatSompi(estimate.amount, network) },
+                { name: 'Recipient Address', value: recipientAddress },
+                { name: 'Network Fee', value: formatSompi(estimate.fees, network), inline: true },
+                { name: 'Priority Fee (included)', value: formatSompi(estimate.priorityFee, network), inline: true },
+                { name: 'Total Debit', value: formatSompi(estimate.totalDebit, network), inline: true },
+                { name: 'Transactions', value: estimate.transactions.toString(), inline: true },
+                { name: 'Mass', value: `${estimate.mass.toString()} grams`, inline: true }
             );
 
+        if (estimate.transactions > 1) {
+            confirmEmbed.setFooter({ text: 'Your wallet has many small UTXOs, so they will be compounded over several transactions first.' });
+        }
+
         const confirmRow = new ActionRowBuilder<ButtonBuilder>()
             .addComponents(
                 createButton('confirm_send', 'Confirm', ButtonStyle.Success),
@@ -481,25 +731,21 @@ const sendKaspaPrompt = async (channel: DMChannel | TextBasedChannel, userId: st
             await confirmMessage.delete().catch(error => Logger.error(`Failed to delete confirmation message: ${error}`));
 
             if (confirmation.customId === 'confirm_send') {
-                // Perform the transaction
-                const txId = await sendKaspa(userId, BigInt(parseFloat(amount) * 1e8), recipientAddress, network);
-                
-                let explorerUrl;
-                switch (network) {
-                    case 'Mainnet':
-                        explorerUrl = `https://explorer.kaspa.org/txs/${txId}`;
-                        break;
-                    case 'Testnet-10':
-                        explorerUrl = `https://explorer-tn10.kaspa.org/txs/${txId}`;
-                        break;
-                    case 'Testnet-11':
-                        explorerUrl = `https://explorer-tn11.kaspa.org/txs/${txId}`;
-                        break;
-                    default:
-                        explorerUrl = `Transaction ID: ${txId}`;
+                const title = sendMax
+                    ? `Sweep of ${formatSompi(estimate.amount, network)} to ${recipientAddress}`
+                    : `Transfer of ${formatSompi(estimate.amount, network)} to ${recipientAddress}`;
+                let statusMessage: Message | undefined;
+                try {
+                    await confirmStepUp(channel, userId, spend, { value: estimate.amount, decimals: 8, display: formatSompi(estimate.amount, network) });
+                    statusMessage = await channel.send(`${title}\nSubmitting...`);
+                    const txId = sendMax
+                        ? await sweepKaspa(userId, recipientAddress, network, priorityFee)
+                        : await sendKaspa(userId, amountSompi, recipientAddress, network, priorityFee);
+                    startTracking(statusMessage, title, network, txId);
+                } catch (sendError) {
+                    await statusMessage?.delete().catch(error => Logger.error(`Failed to delete status message: ${error}`));
+                    await handleError(sendError, channel, 'sendKaspaPrompt');
                 }
-
-                await channel.send(`Transaction completed successfully! View on Explorer here: ${explorerUrl}`);
             } else {
                 await channel.send('Transaction cancelled.');
             }
@@ -512,7 +758,128 @@ const sendKaspaPrompt = async (channel: DMChannel | TextBasedChannel, userId: st
         await handleError(error, channel, 'sendKaspaPrompt');
     } finally {
         // Reset the state to WALLET_ACTIONS
-        userWalletStates.set(userId, WalletState.WALLET_ACTIONS);
+        walletSessions.setState(userId, WalletState.WALLET_ACTIONS);
+    }
+};
+
+/**
+ * Pays every row of an uploaded `address,amount` CSV in one go. Invalid rows
+ * are reported and skipped; a per-row result file is sent afterwards.
+ */
+const batchSendPrompt = async (channel: DMChannel | TextBasedChannel, userId: string) => {
+    Logger.info(`Starting batch send prompt for user: ${userId}`);
+    walletSessions.setState(userId, WalletState.SENDING_KASPA);
+
+    try {
+        const userSession = userSettings.get(userId);
+        if (!userSession || !userSession.network) {
+            throw new AppError('Invalid Session', 'Your wallet session is invalid. Please start over with the !wallet command.', 'INVALID_SESSION');
+        }
+        const network = userSession.network;
+
+        await channel.send(`Please upload a CSV file with one \`address,amount\` row per payment (amounts in KAS, up to ${MAX_BATCH_ROWS} rows):`);
+        const fileResponse = await channel.awaitMessages({
+            filter: (m: Message) => m.author.id === userId,
+            max: 1,
+            time: 120000,
+            errors: ['time']
+        });
+        walletSessions.get(userId)?.touch();
+
+        const attachment = fileResponse.first()?.attachments.first();
+        if (!attachment || !attachment.name.toLowerCase().endsWith('.csv')) {
+            throw new AppError('Missing attachment', 'Please attach a .csv file to your message.', 'INVALID_ATTACHMENT');
+        }
+        if (attachment.size > MAX_BATCH_FILE_SIZE) {
+            throw new AppError('Attachment too large', `The CSV file must be smaller than ${MAX_BATCH_FILE_SIZE / 1024} KB.`, 'INVALID_ATTACHMENT');
+        }
+
+        const csv = await retryableRequest(
+            () => axios.get<string>(attachment.url, { responseType: 'text', timeout: 10000 }),
+            'Error downloading batch CSV'
+        ).catch(error => { throw handleNetworkError(error, 'downloading your CSV file'); });
+        const batch = parsePaymentCsv(csv.data, network);
+
+        if (batch.valid.length === 0) {
+            await channel.send({
+                content: `None of the rows are valid payments:\n${formatInvalidRows(batch.invalid)}`,
+                files: [new AttachmentBuilder(Buffer.from(buildBatchReport(batch, { status: 'failed', error: 'Not submitted' })), { name: 'batch-report.csv' })]
+            });
+            return;
+        }
+
+        const outputs = toPaymentOutputs(batch.valid);
+        const estimateWithFee = (fee: bigint) => estimateSendKaspaBatch(userId, outputs, network, fee);
+
+        const priorityFee = await selectPriorityFee(channel, userId, network, estimateWithFee);
+        if (priorityFee === null) {
+            await channel.send('Batch payment cancelled.');
+            return;
+        }
+        const estimate = await estimateWithFee(priorityFee);
+        const spend: Spend = { kind: 'send', amount: estimate.totalDebit, destinations: outputs.map(output => output.address) };
+        await assertSpendAllowed(userId, spend);
+
+        const summaryEmbed = new EmbedBuilder()
+            .setColor(0x0099FF)
+            .setTitle('Confirm Batch Payment')
+            .setDescription(`Please confirm this batch of ${batch.valid.length} payments. All payments are sent together in the final transaction.`)
+            .addFields(
+                { name: 'Recipients', value: batch.valid.length.toString(), inline: true },
+                { name: 'Total Amount', value: formatSompi(estimate.amount, network), inline: true },
+                { name: 'Network Fee', value: formatSompi(estimate.fees, network), inline: true },
+                { name: 'Total Debit', value: formatSompi(estimate.totalDebit, network), inline: true },
+                { name: 'Transactions', value: estimate.transactions.toString(), inline: true },
+                { name: 'Mass', value: `${estimate.mass.toString()} grams`, inline: true }
+            );
+
+        if (batch.invalid.length > 0) {
+            summaryEmbed.addFields({ name: `Skipped ${batch.invalid.length} invalid row(s)`, value: formatInvalidRows(batch.invalid) });
+        }
+
+        const confirmRow = new ActionRowBuilder<ButtonBuilder>()
+            .addComponents(
+                createButton('confirm_batch', 'Confirm', ButtonStyle.Success),
+                createButton('cancel_batch', 'Cancel', ButtonStyle.Danger)
+            );
+
+        const confirmMessage = await channel.send({ embeds: [summaryEmbed], components: [confirmRow] });
+        let confirmation: MessageComponentInteraction;
+        try {
+            confirmation = await confirmMessage.awaitMessageComponent({
+                filter: (i: MessageComponentInteraction) => i.user.id === userId && ['confirm_batch', 'cancel_batch'].includes(i.customId),
+                time: 60000
+            });
+            await confirmation.deferUpdate();
+        } finally {
+            await confirmMessage.delete().catch(error => Logger.error(`Failed to delete batch confirmation message: ${error}`));
+        }
+
+        if (confirmation.customId !== 'confirm_batch') {
+            await channel.send('Batch payment cancelled.');
+            return;
+        }
+
+        let report: string;
+        try {
+            await confirmStepUp(channel, userId, spend, { value: estimate.amount, decimals: 8, display: formatSompi(estimate.amount, network) });
+            const txId = await sendKaspaBatch(userId, outputs, network, priorityFee);
+            report = buildBatchReport(batch, { status: 'sent', txId });
+            const title = `Batch payment of ${batch.valid.length} payments`;
+            startTracking(await channel.send(title), title, network, txId);
+        } catch (error) {
+            report = buildBatchReport(batch, { status: 'failed', error: error instanceof AppError ? error.userMessage : 'Submission failed' });
+            await handleError(error, channel, 'batchSendPrompt');
+        }
+
+        await channel.send({
+            content: 'Here is the per-row report for this batch:',
+            files: [new AttachmentBuilder(Buffer.from(report), { name: `batch-report-${Date.now()}.csv` })]
+        });
+    } catch (error) {
+        await handleError(error, channel, 'batchSendPrompt');
+    } finally {
+        walletSessions.setState(userId, WalletState.WALLET_ACTIONS);
     }
 };
 
@@ -538,7 +905,9 @@ const checkBalance = async (channel: DMChannel | TextBasedChannel, userId: strin
         const embed = new EmbedBuilder()
             .setColor(0x0099ff)
             .setTitle('Wallet Balance')
-            .setDescription(`Balance for ${userSession.address}`)
+            .setDescription(userSession.hd
+                ? `Balance across all addresses of account ${userSession.hd.activeAccount}\nPrimary address: ${userSession.address}`
+                : `Balance for ${userSession.address}`)
             .addFields(
                 { name: 'Kaspa Balance', value: kaspaBalance },
                 { name: 'KRC20 Token Balances', value: krc20Balances.length > 0 ? 
@@ -554,42 +923,131 @@ const checkBalance = async (channel: DMChannel | TextBasedChannel, userId: strin
     }
 };
 
+const HISTORY_PAGE_SIZE = 5;
+const HISTORY_FILTER_ALL = 'all';
+const HISTORY_FILTER_KAS = 'kas';
+
+const formatHistoryEntry = (entry: HistoryEntry, network: Network): { name: string; value: string } => {
+    const sign = entry.amount < 0n ? '-' : '+';
+    const absolute = entry.amount < 0n ? -entry.amount : entry.amount;
+    const amount = `${sign}${formatAmount(absolute, entry.decimals)} ${entry.ticker}`;
+    const statusIcon = entry.status === 'accepted' ? '✅' : entry.status === 'failed' ? '❌' : '⏳';
+    const label = entry.kind === 'KAS' ? 'KAS transfer' : `KRC20 ${entry.operation}`;
+    const date = entry.timestamp ? new Date(entry.timestamp).toUTCString() : 'Unconfirmed';
+
+    return {
+        name: `${statusIcon} ${label} · ${amount}`,
+        value: `${date}\n[View on Explorer](${getExplorerTxUrl(network, entry.txId)})`
+    };
+};
+
 const showTransactionHistory = async (channel: DMChannel | TextBasedChannel, userId: string) => {
     Logger.info(`Showing transaction history for user: ${userId}`);
     try {
+        if (!checkRateLimit(userId, 'showTransactionHistory')) {
+            const remainingTime = getRateLimitRemainingTime(userId, 'showTransactionHistory');
+            throw new AppError(
+                'Rate limit exceeded',
+                `You're requesting transaction history too frequently. Please try again in ${Math.ceil(remainingTime / 1000)} seconds.`,
+                'RATE_LIMIT_EXCEEDED'
+            );
+        }
+
         const userSession = userSettings.get(userId);
         if (!userSession || !userSession.address || !userSession.network) {
             throw new AppError('Invalid wallet', 'Your wallet session is invalid. Please start over with the !wallet command.', 'INVALID_SESSION');
         }
+        const { address, network } = userSession;
+        walletSessions.setState(userId, WalletState.VIEWING_HISTORY);
 
-        const explorerUrl = getExplorerUrl(userSession.address, userSession.network);
-        
-        await channel.send(`Built in transaction history is coming soon. For now, you can view your transaction history here: ${explorerUrl}`);
-        
-        Logger.info(`Transaction history link sent to user: ${userId}`);
+        const { krc20Balances } = await getBalance(userId, network);
+        const decimalsByTicker = new Map(krc20Balances.map(token => [token.ticker, token.decimals]));
+        const entries = await getTransactionHistory(address, network, decimalsByTicker);
 
-        // Delete the old Wallet Actions prompt
-        if (lastWalletActionsMessage) {
-            await lastWalletActionsMessage.delete().catch(error => Logger.error(`Failed to delete old Wallet Actions message: ${error}`));
+        if (entries.length === 0) {
+            await channel.send(`No transactions found yet. You can also check the explorer: ${getExplorerAddressUrl(network, address)}`);
+            return;
         }
 
-        // Issue a new Wallet Actions prompt
-        await promptWalletActions(channel, userId);
+        const tickers = [...new Set(entries.filter(entry => entry.kind === 'KRC20').map(entry => entry.ticker))];
+        let filter = HISTORY_FILTER_ALL;
+        let page = 0;
+
+        const filteredEntries = () => entries.filter(entry =>
+            filter === HISTORY_FILTER_ALL ||
+            (filter === HISTORY_FILTER_KAS ? entry.kind === 'KAS' : entry.kind === 'KRC20' && entry.ticker === filter)
+        );
+
+        const render = () => {
+            const visible = filteredEntries();
+            const pageCount = Math.max(1, Math.ceil(visible.length / HISTORY_PAGE_SIZE));
+            page = Math.min(page, pageCount - 1);
+
+            const embed = new EmbedBuilder()
+                .setColor(0x0099FF)
+                .setTitle('Transaction History')
+                .setDescription(visible.length > 0
+                    ? `[Full history on the explorer](${getExplorerAddressUrl(network, address)})`
+                    : 'No transactions match this filter.')
+                .addFields(visible
+                    .slice(page * HISTORY_PAGE_SIZE, (page + 1) * HISTORY_PAGE_SIZE)
+                    .map(entry => formatHistoryEntry(entry, network)))
+                .setFooter({ text: `Page ${page + 1} of ${pageCount} · Network: ${network}` });
+
+            const filterRow = new ActionRowBuilder<StringSelectMenuBuilder>()
+                .addComponents(
+                    new StringSelectMenuBuilder()
+                        .setCustomId('history_filter')
+                        .setPlaceholder('Filter transactions')
+                        .addOptions([
+                            { label: 'All transactions', value: HISTORY_FILTER_ALL, default: filter === HISTORY_FILTER_ALL },
+                            { label: 'KAS only', value: HISTORY_FILTER_KAS, default: filter === HISTORY_FILTER_KAS },
+                            // Discord select menus are limited to 25 options
+                            ...tickers.slice(0, 23).map(ticker => ({ label: ticker, value: ticker, default: filter === ticker }))
+                        ])
+                );
+
+            const navigationRow = new ActionRowBuilder<ButtonBuilder>()
+                .addComponents(
+                    createButton('history_prev', 'Prev', ButtonStyle.Secondary).setDisabled(page === 0),
+                    createButton('history_next', 'Next', ButtonStyle.Secondary).setDisabled(page >= pageCount - 1)
+                );
+
+            return { embeds: [embed], components: [filterRow, navigationRow] };
+        };
+
+        const historyMessage = await channel.send(render());
+        const session = walletSessions.get(userId);
+
+        const collector = historyMessage.createMessageComponentCollector({
+            filter: i => i.user.id === userId,
+            idle: 120000
+        });
+        session?.trackCollector(collector);
+
+        collector.on('collect', async (interaction) => {
+            session?.touch();
+            if (interaction.isStringSelectMenu()) {
+                filter = interaction.values[0];
+                page = 0;
+            } else if (interaction.customId === 'history_prev') {
+                page = Math.max(0, page - 1);
+            } else if (interaction.customId === 'history_next') {
+                page += 1;
+            }
+            await interaction.update(render()).catch(error => Logger.error(`Failed to update history page: ${error}`));
+        });
+
+        collector.on('end', async () => {
+            session?.untrackCollector(collector);
+            await historyMessage.edit({ components: [] }).catch(() => undefined);
+        });
+
+        Logger.info(`Transaction history sent to user: ${userId}`);
     } catch (error) {
         await handleError(error, channel, 'showTransactionHistory');
-    }
-};
-
-const getExplorerUrl = (address: string, network: Network): string => {
-    switch (network) {
-        case 'Mainnet':
-            return `https://explorer.kaspa.org/addresses/${address}`;
-        case 'Testnet-10':
-            return `https://explorer-tn10.kaspa.org/addresses/${address}`;
-        case 'Testnet-11':
-            return `https://explorer-tn11.kaspa.org/addresses/${address}`;
-        default:
-            throw new AppError('Invalid Network', `Invalid network: ${network}`, 'INVALID_NETWORK');
+    } finally {
+        walletSessions.setState(userId, WalletState.WALLET_ACTIONS);
     }
 };
 
@@ -610,8 +1068,14 @@ const showHelpMessage = async (channel: DMChannel | TextBasedChannel, userId: st
             .setTitle('Wallet Help')
             .setDescription('Here are the available wallet commands:')
             .addFields(
-                { name: 'Send Kaspa', value: 'Send Kaspa to another address' },
+                { name: 'Receive', value: 'Show your receive address, or request a payment with an amount and memo as a `kaspa:` link and QR code. You get a DM when it is paid' },
+                { name: 'Send Kaspa', value: 'Send Kaspa to another address, with a choice of fee priority. Enter `max` as the amount to send everything minus fees' },
+                { name: 'Batch Send', value: 'Pay many recipients at once from an uploaded `address,amount` CSV file' },
+                { name: 'Sweep Wallet', value: 'Move your entire balance to another address, e.g. when migrating a wallet' },
                 { name: 'Check Balance', value: 'View your current Kaspa and KRC20 token balances' },
+                { name: 'Send Token', value: 'Transfer KRC20 tokens you hold to another address' },
+                { name: 'Mint Token', value: `Mint a KRC20 token up to ${MAX_MINT_COUNT} times in a row, with a cost estimate and a Stop button` },
+                { name: 'Deploy Token', value: `Launch a new KRC20 token (costs ${DEPLOY_FEE} KAS)` },
                 { name: 'Transaction History', value: 'View your recent transactions' },
                 { name: 'Go Back', value: 'Return to the main wallet menu' }
             )
@@ -665,9 +1129,8 @@ const endSession = async (channel: DMChannel | TextBasedChannel, userId: string)
         // Send the end session message
         await channel.send("Your session has now ended and all private information has been erased. Thank you for using Kat Wallet Bot by Nacho!");
 
-        // Clear user session data
-        userSettings.delete(userId);
-        userWalletStates.delete(userId);
+        // Wipe the private key and tear down the session's RPC client
+        await walletSessions.end(userId);
 
         Logger.info(`Session ended for user: ${userId}`);
     } catch (error) {
@@ -675,16 +1138,155 @@ const endSession = async (channel: DMChannel | TextBasedChannel, userId: string)
     }
 };
 
+const buildReceiveAddressMessage = (userId: string) => {
+    const userSession = userSettings.get(userId);
+    if (!userSession || !userSession.address) {
+        throw new AppError('Invalid wallet', 'Your wallet is not set up correctly. Please create a new wallet.', 'INVALID_WALLET');
+    }
+
+    const requestRow = new ActionRowBuilder<ButtonBuilder>()
+        .addComponents(
+            createButton('request_payment', 'Request Payment', ButtonStyle.Success),
+            createButton('payment_requests', 'My Requests', ButtonStyle.Secondary)
+        );
+
+    if (!userSession.hd) {
+        return { content: `Your receive address is: ${userSession.address}`, components: [requestRow] };
+    }
+
+    const receiveAddresses = getReceiveAddresses(userSession);
+    const embed = new EmbedBuilder()
+        .setColor(0x0099FF)
+        .setTitle(`Receive Addresses · Account ${userSession.hd.activeAccount}`)
+        .setDescription(`Newest address:\n\`${receiveAddresses[receiveAddresses.length - 1]}\``)
+        .addFields({
+            name: 'All receive addresses',
+            // Embed field values are capped at 1024 characters, roughly 12 addresses
+            value: receiveAddresses.slice(-12).map((address, i, shown) => `#${receiveAddresses.length - shown.length + i} ${address}`).join('\n')
+        })
+        .setFooter({ text: `Network: ${userSession.network} · Funds on any of these addresses count towards your balance` });
+
+    const row = new ActionRowBuilder<ButtonBuilder>()
+        .addComponents(
+            createButton('new_receive_address', 'New Address', ButtonStyle.Primary),
+            createButton('switch_account', 'Switch Account', ButtonStyle.Secondary)
+        );
+
+    return { content: '', embeds: [embed], components: [row, requestRow] };
+};
+
+// HD wallets get a fresh receive address per request, which never takes change, reveals or market proceeds
+const getRequestAddress = async (userId: string): Promise<string> => {
+    const userSession = userSettings.get(userId)!;
+    if (!userSession.hd) {
+        return userSession.address!;
+    }
+    await discoverUsedAddresses(userId, userSession);
+    const receiveAddresses = getReceiveAddresses(userSession);
+    return receiveAddresses.length < MAX_ADDRESSES_PER_CHAIN
+        ? deriveNextReceiveAddress(userId)
+        : receiveAddresses[receiveAddresses.length - 1];
+};
+
+const requestPaymentPrompt = async (channel: DMChannel | TextBasedChannel, userId: string) => {
+    const userSession = userSettings.get(userId);
+    if (!userSession?.address || !userSession.network) {
+        throw new AppError('Invalid Session', 'Your wallet session is invalid. Please start over with the !wallet command.', 'INVALID_SESSION');
+    }
+
+    const amountInput = await awaitUserInput(channel, userId, 'Enter the amount of KAS to request, or `skip` to let the sender choose:');
+    const amount = amountInput.toLowerCase() === 'skip' ? undefined : parseTokenAmount(amountInput, KAS_DECIMALS);
+    const memoInput = await awaitUserInput(channel, userId, `Enter a memo for this request (up to ${MAX_MEMO_LENGTH} characters), or \`skip\`:`);
+    const memo = memoInput.toLowerCase() === 'skip' || !memoInput ? undefined : memoInput.slice(0, MAX_MEMO_LENGTH);
+
+    const request = await createPaymentRequest(userId, userSession.network, await getRequestAddress(userId), amount, memo);
+    const qrCode = new AttachmentBuilder(await createQrCode(request.uri), { name: 'payment-request.png' });
+
+    const embed = new EmbedBuilder()
+        .setColor(0x0099FF)
+        .setTitle('Payment Request')
+        .setDescription(`\`${request.uri}\``)
+        .addFields(
+            { name: 'Amount', value: amount !== undefined ? formatSompi(amount, userSession.network) : 'Any', inline: true },
+            { name: 'Request ID', value: request.id, inline: true },
+            { name: 'Address', value: request.address }
+        )
+        .setImage('attachment://payment-request.png')
+        .setFooter({ text: "Scan with a Kaspa wallet. You'll get a DM when this request is paid." });
+    if (memo) {
+        embed.addFields({ name: 'Memo', value: memo });
+    }
+
+    await channel.send({ embeds: [embed], files: [qrCode] });
+    Logger.info(`Payment request ${request.id} created for user: ${userId}`);
+};
+
+const showPaymentRequests = async (channel: DMChannel | TextBasedChannel, userId: string) => {
+    const requests = await getPaymentRequests(userId);
+    if (requests.length === 0) {
+        await channel.send('You have no payment requests from the last 7 days.');
+        return;
+    }
+
+    const embed = new EmbedBuilder()
+        .setColor(0x0099FF)
+        .setTitle('Payment Requests')
+        .addFields(requests.slice(0, 10).map(request => ({
+            name: `${request.id} · ${request.paidTxId ? '✅ Paid' : '⏳ Waiting'}`,
+            value: [
+                `Amount: ${request.amount ? formatSompi(BigInt(request.amount), request.network) : 'Any'}`,
+                request.memo ? `Memo: ${request.memo}` : '',
+                request.paidTxId ? `Paid in: ${getExplorerTxUrl(request.network, request.paidTxId)}` : `Address: ${request.address}`
+            ].filter(Boolean).join('\n')
+        })));
+    await channel.send({ embeds: [embed] });
+};
+
 const showReceiveAddress = async (channel: DMChannel | TextBasedChannel, userId: string) => {
     Logger.info(`Showing receive address for user: ${userId}`);
     try {
-        const userSession = userSettings.get(userId);
-        if (!userSession || !userSession.address) {
-            throw new AppError('Invalid wallet', 'Your wallet is not set up correctly. Please create a new wallet.', 'INVALID_WALLET');
-        }
-
-        await channel.send(`Your receive address is: ${userSession.address}`);
+        const addressMessage = await channel.send(buildReceiveAddressMessage(userId));
         Logger.info(`Receive address sent to user: ${userId}`);
+
+        const session = walletSessions.get(userId);
+        const collector = addressMessage.createMessageComponentCollector({
+            filter: i => i.user.id === userId,
+            idle: 120000
+        });
+        session?.trackCollector(collector);
+
+        collector.on('collect', async (interaction) => {
+            session?.touch();
+            try {
+                if (interaction.customId === 'request_payment') {
+                    await interaction.deferUpdate();
+                    await requestPaymentPrompt(channel, userId);
+                } else if (interaction.customId === 'payment_requests') {
+                    await interaction.deferUpdate();
+                    await showPaymentRequests(channel, userId);
+                } else if (interaction.customId === 'new_receive_address') {
+                    deriveNextReceiveAddress(userId);
+                    await interaction.update(buildReceiveAddressMessage(userId));
+                } else if (interaction.customId === 'switch_account') {
+                    await interaction.deferUpdate();
+                    const accountInput = await awaitUserInput(channel, userId, 'Enter the account number to switch to (e.g. `1`):');
+                    if (!/^\d+$/.test(accountInput)) {
+                        throw new AppError('Invalid account', 'Account numbers are whole numbers, starting at 0.', 'INVALID_ACCOUNT');
+                    }
+                    const address = switchAccount(userId, parseInt(accountInput, 10));
+                    await resetTrackedAddresses(userId, userSettings.get(userId)!.network);
+                    await addressMessage.edit(buildReceiveAddressMessage(userId));
+                    await channel.send(`Switched to account ${accountInput}. Your primary address is now ${address}`);
+                }
+            } catch (error) {
+                await handleError(error, channel, 'showReceiveAddress');
+            }
+        });
+
+        collector.on('end', async () => {
+            session?.untrackCollector(collector);
+            await addressMessage.edit({ components: [] }).catch(() => undefined);
+        });
     } catch (error) {
         await handleError(error, channel, 'showReceiveAddress');
     }
@@ -699,9 +1301,7 @@ const showTokenInfo = async (channel: DMChannel | TextBasedChannel, userId: stri
         }
 
         // Delete the old Wallet Actions prompt
-        if (lastWalletActionsMessage) {
-            await lastWalletActionsMessage.delete().catch(error => Logger.error(`Failed to delete old Wallet Actions message: ${error}`));
-        }
+        await walletSessions.get(userId)?.replaceMenuMessage(null);
 
         await channel.send('Please enter the ticker of the token you want to view information for:');
         const tickerResponse = await channel.awaitMessages({
@@ -716,29 +1316,203 @@ const showTokenInfo = async (channel: DMChannel | TextBasedChannel, userId: stri
             throw new AppError('Invalid Input', 'You must provide a valid ticker.', 'INVALID_INPUT');
         }
 
-        const tokenInfoEmbed = await getTokenInfo(ticker);
+        const tokenInfoEmbed = await getTokenInfo(ticker, userSession.network);
         await channel.send({ embeds: [tokenInfoEmbed] });
     } catch (error) {
         await handleError(error, channel, 'showTokenInfo');
     } finally {
-        userWalletStates.set(userId, WalletState.WALLET_ACTIONS);
-        await promptWalletActions(channel, userId);
+        walletSessions.setState(userId, WalletState.WALLET_ACTIONS);
     }
 };
 
 const sendTokenPrompt = async (channel: DMChannel | TextBasedChannel, userId: string) => {
     Logger.info(`Starting send token prompt for user: ${userId}`);
-    await channel.send('Send token feature is coming soon!');
+    walletSessions.setState(userId, WalletState.SENDING_TOKEN);
+
+    try {
+        if (!checkRateLimit(userId, 'sendToken')) {
+            const remainingTime = getRateLimitRemainingTime(userId, 'sendToken');
+            throw new AppError(
+                'Rate limit exceeded',
+                `You're sending tokens too frequently. Please try again in ${Math.ceil(remainingTime / 1000)} seconds.`,
+                'RATE_LIMIT_EXCEEDED'
+            );
+        }
+
+        const userSession = userSettings.get(userId);
+        if (!userSession || !userSession.network || !userSession.privateKey || !userSession.address) {
+            throw new AppError('Invalid Session', 'Your wallet session is invalid. Please start over with the !wallet command.', 'INVALID_SESSION');
+        }
+        const network = userSession.network;
+
+        const { krc20Balances } = await getBalance(userId, network);
+        const transferable = krc20Balances.filter(token => BigInt(token.rawBalance) > 0n);
+        if (transferable.length === 0) {
+            await channel.send('You do not hold any KRC20 tokens that can be sent.');
+            return;
+        }
+
+        // Discord select menus are limited to 25 options
+        const selectRow = new ActionRowBuilder<StringSelectMenuBuilder>()
+            .addComponents(
+                new StringSelectMenuBuilder()
+                    .setCustomId('select_token')
+                    .setPlaceholder('Choose a token to send')
+                    .addOptions(transferable.slice(0, 25).map(token => ({
+                        label: token.ticker,
+                        description: `Balance: ${token.balance}`,
+                        value: token.ticker
+                    })))
+            );
+
+        const selectMessage = await channel.send({ content: 'Which token would you like to send?', components: [selectRow] });
+        const selection = await selectMessage.awaitMessageComponent({
+            componentType: ComponentType.StringSelect,
+            filter: i => i.user.id === userId,
+            time: 60000
+        });
+        await selection.deferUpdate();
+        await selectMessage.delete().catch(error => Logger.error(`Failed to delete token selection message: ${error}`));
+
+        const token = transferable.find(t => t.ticker === selection.values[0]);
+        if (!token) {
+            throw new AppError('Invalid Token', 'The selected token could not be found in your balance.', 'INVALID_TOKEN');
+        }
+
+        // Ask for amount
+        await channel.send(`Please enter the amount of ${token.ticker} to send (available: ${token.balance}):`);
+        const amountResponse = await channel.awaitMessages({
+            filter: (m: Message) => m.author.id === userId,
+            max: 1,
+            time: 60000,
+            errors: ['time']
+        });
+        const amountInput = sanitizeInput(amountResponse.first()?.content || '');
+        const amount = parseTokenAmount(amountInput, token.decimals);
+
+        if (amount > BigInt(token.rawBalance)) {
+            throw new AppError('Insufficient Balance', `You only have ${token.balance} ${token.ticker} available.`, 'INSUFFICIENT_TOKEN_BALANCE');
+        }
+
+        // Ask for recipient address
+        await channel.send('Please enter the recipient\'s Kaspa address:');
+        const addressResponse = await channel.awaitMessages({
+            filter: (m: Message) => m.author.id === userId,
+            max: 1,
+            time: 60000,
+            errors: ['time']
+        });
+        const recipientAddress = sanitizeInput(addressResponse.first()?.content || '');
+
+        validateAddress(recipientAddress, network);
+
+        // Confirm transfer
+        const transferCost = estimateInscriptionCost();
+        const spend: Spend = { kind: 'transfer', amount: transferCost.fees, destinations: [recipientAddress] };
+        await assertSpendAllowed(userId, spend);
+        const confirmEmbed = new EmbedBuilder()
+            .setColor(0x0099FF)
+            .setTitle('Confirm Token Transfer')
+            .setDescription('Please confirm the transfer details:')
+            .addFields(
+                { name: 'Token', value: token.ticker, inline: true },
+                { name: 'Amount', value: `${amountInput} ${token.ticker}`, inline: true },
+                { name: 'Recipient Address', value: recipientAddress },
+                { name: 'Estimated Network Fees', value: `~${formatSompi(transferCost.fees, network)} (commit + reveal)`, inline: true },
+                { name: 'Temporarily Locked', value: `${formatSompi(transferCost.locked, network)} (returned by the reveal)`, inline: true }
+            )
+            .setFooter({ text: `Network: ${network}` });
+
+        const confirmRow = new ActionRowBuilder<ButtonBuilder>()
+            .addComponents(
+                createButton('confirm_token_send', 'Confirm', ButtonStyle.Success),
+                createButton('cancel_token_send', 'Cancel', ButtonStyle.Danger)
+            );
+
+        const confirmMessage = await channel.send({ embeds: [confirmEmbed], components: [confirmRow] });
+
+        try {
+            const confirmation = await confirmMessage.awaitMessageComponent({
+                filter: (i: MessageComponentInteraction) => i.user.id === userId && ['confirm_token_send', 'cancel_token_send'].includes(i.customId),
+                time: 60000
+            });
+
+            await confirmation.deferUpdate();
+            await confirmMessage.delete().catch(error => Logger.error(`Failed to delete confirmation message: ${error}`));
+
+            if (confirmation.customId !== 'confirm_token_send') {
+                await channel.send('Token transfer cancelled.');
+                return;
+            }
+        } catch (interactionError) {
+            Logger.error(`Interaction failed for user ${userId}: ${interactionError}`);
+            await channel.send('The confirmation interaction failed or timed out. Please try the transfer again.');
+            return;
+        }
+
+        await confirmStepUp(channel, userId, spend, { value: amount, decimals: token.decimals, display: `${amountInput} ${token.ticker}` });
+        const transferMessage = await channel.send(`Initiating transfer of ${amountInput} ${token.ticker}. This may take a few minutes...`);
+
+        try {
+            const result = await transferToken(userId, network, token.ticker, amount, recipientAddress, userSession.privateKey);
+            startTracking(transferMessage, `Transfer of ${amountInput} ${token.ticker} to ${recipientAddress}`, network, result.revealTxId, { krc20: true });
+        } catch (transferError) {
+            Logger.error(`Token transfer error for user ${userId}: ${transferError}`);
+            await transferMessage.edit(formatInscriptionError(transferError, 'token transfer'));
+        }
+    } catch (error) {
+        await handleError(error, channel, 'sendTokenPrompt');
+    } finally {
+        walletSessions.setState(userId, WalletState.WALLET_ACTIONS);
+    }
+};
+
+const formatInscriptionError = (error: unknown, action: string): string =>
+    error instanceof AppError
+        ? `❌ Error during ${action}: ${error.userMessage}\nError code: ${error.code}\nPlease try again or contact support if the issue persists.`
+        : `❌ An unexpected error occurred during ${action}. Please try again or contact support if the issue persists.`;
+
+const MINT_STOP_MESSAGES: Record<BatchMintStopReason, string> = {
+    completed: '✅ Batch mint complete.',
+    stopped: '⏹️ Batch mint stopped.',
+    insufficient_balance: '⚠️ Stopped: your balance can no longer cover another mint.',
+    finished: '🏁 Stopped: this token has been fully minted.',
+    spending_limit: '🛑 Stopped: the next mint would go over your spending limit.',
+    too_many_failures: '❌ Stopped after several consecutive failed mints.'
+};
+
+const createMintProgressEmbed = (ticker: string, progress: BatchMintProgress, tokenInfo: TokenInfo, network: Network, status: string) => {
+    const gained = (BigInt(tokenInfo.lim) * BigInt(progress.done)).toString();
+    const embed = new EmbedBuilder()
+        .setColor(0x0099FF)
+        .setTitle(`Minting ${ticker}`)
+        .setDescription(status)
+        .addFields(
+            { name: 'Done', value: progress.done.toString(), inline: true },
+            { name: 'Failed', value: progress.failed.toString(), inline: true },
+            { name: 'Remaining', value: progress.remaining.toString(), inline: true },
+            { name: 'Tokens Minted', value: `${formatAmount(gained, tokenInfo.dec)} ${ticker}`, inline: true }
+        );
+
+    if (progress.lastTxId) {
+        embed.addFields({ name: 'Last Reveal Transaction', value: getExplorerTxUrl(network, progress.lastTxId) });
+    }
+    if (progress.lastError) {
+        embed.addFields({ name: 'Last Error', value: progress.lastError.slice(0, 1024) });
+    }
+    return embed;
 };
 
 const mintTokenPrompt = async (channel: DMChannel | TextBasedChannel, userId: string) => {
     Logger.info(`Starting mint token prompt for user: ${userId}`);
-    
+    walletSessions.setState(userId, WalletState.MINTING_TOKEN);
+
     try {
         const userSession = userSettings.get(userId);
         if (!userSession || !userSession.network || !userSession.privateKey || !userSession.address) {
             throw new AppError('Invalid Session', 'Your wallet session is invalid. Please start over with the !wallet command.', 'INVALID_SESSION');
         }
+        const network = userSession.network;
 
         await channel.send('Please enter the ticker of the token you want to mint:');
         const tickerResponse = await channel.awaitMessages({
@@ -748,57 +1522,292 @@ const mintTokenPrompt = async (channel: DMChannel | TextBasedChannel, userId: st
             errors: ['time']
         });
         const ticker = tickerResponse.first()?.content.trim().toUpperCase();
+        if (!ticker) {
+            throw new AppError('Invalid Input', 'You must provide a ticker.', 'INVALID_INPUT');
+        }
 
-        await channel.send('Please enter the priority fee (in KAS) for this transaction:');
-        const feeResponse = await channel.awaitMessages({
-            filter: (m: Message) => {
-                try {
-                    validateAmount(m.content);
-                    return m.author.id === userId;
-                } catch {
-                    return false;
-                }
-            },
-            max: 1,
-            time: 60000,
-            errors: ['time']
-        });
-        const priorityFee = feeResponse.first()?.content.trim();
+        const tokenInfo = await fetchTokenInfo(ticker, network);
+        if (!tokenInfo || tokenInfo.state !== 'deployed') {
+            throw new AppError(
+                'Token not mintable',
+                tokenInfo?.state === 'finished' ? `${ticker} has already been fully minted.` : `${ticker} has not been deployed on ${network}.`,
+                'TOKEN_NOT_MINTABLE'
+            );
+        }
 
-        if (!ticker || !priorityFee) {
-            throw new AppError('Invalid Input', 'You must provide both a ticker and a priority fee.', 'INVALID_INPUT');
+        const feeInput = await awaitUserInput(channel, userId, 'Please enter an extra priority fee (in KAS) to add to each commit and reveal, or 0 for none:');
+        const priorityFee = parseTokenAmount(feeInput, KAS_DECIMALS, { allowZero: true });
+
+        const countInput = await awaitUserInput(channel, userId, `How many times do you want to mint ${ticker}? (1-${MAX_MINT_COUNT})`);
+        const count = Number(countInput);
+        if (!Number.isInteger(count) || count < 1 || count > MAX_MINT_COUNT) {
+            throw new AppError('Invalid Input', `Please enter a whole number between 1 and ${MAX_MINT_COUNT}.`, 'INVALID_INPUT');
         }
 
-        const mintingMessage = await channel.send(`Initiating minting process for ${ticker} tokens. This may take a few minutes...`);
+        const cost = estimateMintCost(count, priorityFee);
+        // Each mint counts against the limits on its own; the step-up covers the whole batch
+        await assertSpendAllowed(userId, { kind: 'mint', amount: cost.perMint, destinations: [] });
+        const costEmbed = new EmbedBuilder()
+            .setColor(0xFFA500)
+            .setTitle(`Mint ${ticker} x${count}`)
+            .setDescription('Mints run one after another. You can stop at any time, and the batch stops automatically if your balance runs out or the token is fully minted.')
+            .addFields(
+                { name: 'Tokens per Mint', value: `${formatAmount(tokenInfo.lim, tokenInfo.dec)} ${ticker}`, inline: true },
+                { name: 'Fees per Mint', value: formatSompi(cost.perMint, network), inline: true },
+                { name: 'Estimated Total Cost', value: formatSompi(cost.total, network), inline: true },
+                { name: 'Balance Needed', value: `${formatSompi(cost.requiredBalance, network)} (includes the commit amount, returned after each mint)` }
+            );
+
+        const startRow = new ActionRowBuilder<ButtonBuilder>()
+            .addComponents(
+                createButton('start_mint', 'Start Minting', ButtonStyle.Success),
+                createButton('cancel_mint', 'Cancel', ButtonStyle.Danger)
+            );
 
+        const costMessage = await channel.send({ embeds: [costEmbed], components: [startRow] });
+        let start: MessageComponentInteraction;
         try {
-            const revealHash = await mintToken(userId, userSession.network, ticker, priorityFee, userSession.privateKey);
-            
-            const explorerUrl = `https://explorer-tn10.kaspa.org/txs/${revealHash}`;
-            await mintingMessage.edit(`✅ Token minting successful for ${ticker}!\nReveal transaction hash: ${revealHash}\nYou can view the transaction details here: ${explorerUrl}`);
+            start = await costMessage.awaitMessageComponent({
+                filter: (i: MessageComponentInteraction) => i.user.id === userId,
+                time: 60000
+            });
+            await start.deferUpdate();
+        } finally {
+            await costMessage.delete().catch(error => Logger.error(`Failed to delete mint cost message: ${error}`));
+        }
 
-            // Optionally, you can add a balance check here to show the user their updated token balance
-            await checkBalance(channel, userId);
+        if (start.customId !== 'start_mint') {
+            await channel.send('Minting cancelled.');
+            return;
+        }
+        await confirmStepUp(channel, userId, { kind: 'mint', amount: cost.total, destinations: [] }, { value: BigInt(count), decimals: 0, display: `${count} mints` });
+
+        const session = walletSessions.get(userId);
+        const stopRow = new ActionRowBuilder<ButtonBuilder>()
+            .addComponents(createButton('stop_mint', 'Stop', ButtonStyle.Danger));
+        const initialProgress: BatchMintProgress = { requested: count, done: 0, failed: 0, remaining: count, txIds: [] };
+        const progressMessage = await channel.send({
+            embeds: [createMintProgressEmbed(ticker, initialProgress, tokenInfo, network, 'Minting in progress. This may take a few minutes...')],
+            components: [stopRow]
+        });
 
-        } catch (mintingError) {
-            Logger.error(`Minting error for user ${userId}: ${mintingError}`);
-            if (mintingError instanceof AppError) {
-                await mintingMessage.edit(`❌ Error during token minting: ${mintingError.message}\nError code: ${mintingError.code}\nPlease try again or contact support if the issue persists.`);
-            } else {
-                await mintingMessage.edit(`❌ An unexpected error occurred during token minting. Please try again or contact support if the issue persists.`);
-            }
+        let stopRequested = false;
+        const stopCollector = progressMessage.createMessageComponentCollector({
+            filter: i => i.user.id === userId && i.customId === 'stop_mint'
+        });
+        session?.trackCollector(stopCollector);
+        stopCollector.on('collect', async (interaction) => {
+            stopRequested = true;
+            await interaction.reply({ content: 'Stopping after the current mint finishes...', ephemeral: true }).catch(() => undefined);
+        });
+        stopCollector.on('end', () => session?.untrackCollector(stopCollector));
+
+        // Whatever happens, the Stop button goes away and the embed shows where the batch ended
+        let progress = initialProgress;
+        let stopMessage = 'Minting stopped because of an error.';
+        try {
+            const result = await runBatchMint({
+                userId,
+                network,
+                ticker,
+                priorityFee,
+                count,
+                shouldStop: () => stopRequested,
+                onProgress: async (current) => {
+                    progress = current;
+                    // Long batches must not trip the idle timeout
+                    walletSessions.get(userId)?.touch();
+                    await progressMessage.edit({
+                        embeds: [createMintProgressEmbed(ticker, current, tokenInfo, network, stopRequested ? 'Stopping after the current mint...' : 'Minting in progress...')]
+                    }).catch(error => Logger.warn(`Failed to update mint progress: ${error}`));
+                }
+            });
+            progress = result.progress;
+            stopMessage = MINT_STOP_MESSAGES[result.reason];
+        } finally {
+            stopCollector.stop('finished');
+            await progressMessage.edit({
+                embeds: [createMintProgressEmbed(ticker, progress, tokenInfo, network, stopMessage)],
+                components: []
+            }).catch(error => Logger.warn(`Failed to update mint progress: ${error}`));
         }
 
+        if (progress.done > 0) {
+            startTrackingBatch(progressMessage, `Mints of ${ticker}`, network, progress.txIds, { krc20: true });
+            await checkBalance(channel, userId);
+        }
     } catch (error) {
         await handleError(error, channel, 'mintTokenPrompt');
     } finally {
         // Reset the state to WALLET_ACTIONS
-        userWalletStates.set(userId, WalletState.WALLET_ACTIONS);
-        await promptWalletActions(channel, userId);
+        walletSessions.setState(userId, WalletState.WALLET_ACTIONS);
     }
 };
 
+const awaitUserInput = async (channel: DMChannel | TextBasedChannel, userId: string, prompt: string): Promise<string> => {
+    await channel.send(prompt);
+    const response = await channel.awaitMessages({
+        filter: (m: Message) => m.author.id === userId,
+        max: 1,
+        time: 120000,
+        errors: ['time']
+    });
+    walletSessions.get(userId)?.touch();
+    return sanitizeInput(response.first()?.content.trim() || '');
+};
+
 const deployTokenPrompt = async (channel: DMChannel | TextBasedChannel, userId: string) => {
     Logger.info(`Starting deploy token prompt for user: ${userId}`);
-    await channel.send('Deploy token feature is coming soon!');
+    walletSessions.setState(userId, WalletState.DEPLOYING_TOKEN);
+
+    try {
+        if (!checkRateLimit(userId, 'deployToken')) {
+            const remainingTime = getRateLimitRemainingTime(userId, 'deployToken');
+            throw new AppError(
+                'Rate limit exceeded',
+                `You're deploying tokens too frequently. Please try again in ${Math.ceil(remainingTime / 1000)} seconds.`,
+                'RATE_LIMIT_EXCEEDED'
+            );
+        }
+
+        const userSession = userSettings.get(userId);
+        if (!userSession || !userSession.network || !userSession.privateKey || !userSession.address) {
+            throw new AppError('Invalid Session', 'Your wallet session is invalid. Please start over with the !wallet command.', 'INVALID_SESSION');
+        }
+        const network = userSession.network;
+
+        await channel.send(`🛠️ **Token Deployment Wizard**\nDeploying a KRC20 token costs ${DEPLOY_FEE} KAS plus network fees. You can type \`cancel\` at any step.`);
+
+        // Step 1: ticker
+        const ticker = (await awaitUserInput(channel, userId, 'Step 1/5: Enter the ticker (4 to 6 letters):')).toUpperCase();
+        if (ticker === 'CANCEL') {
+            await channel.send('Token deployment cancelled.');
+            return;
+        }
+        if (!/^[A-Z]{4,6}$/.test(ticker)) {
+            throw new AppError('Invalid Ticker', 'Tickers must be 4 to 6 letters (A-Z).', 'INVALID_TICKER');
+        }
+
+        const existing = await fetchTokenInfo(ticker, network);
+        switch (existing.state.toLowerCase()) {
+            case 'unused':
+                break;
+            case 'ignored':
+                throw new AppError('Ticker Unavailable', `${ticker} is a reserved ticker on Kasplex and cannot be deployed.`, 'TICKER_IGNORED');
+            default:
+                throw new AppError('Ticker Unavailable', `${ticker} has already been deployed on ${network}. Please choose another ticker.`, 'TICKER_DEPLOYED');
+        }
+        await channel.send(`✅ ${ticker} is available on ${network}.`);
+
+        // Step 2: decimals, needed before any amount can be parsed
+        const decimalsInput = await awaitUserInput(channel, userId, `Step 2/5: Enter the number of decimals (0-18), or \`default\` for ${DEFAULT_DECIMALS}:`);
+        if (decimalsInput.toLowerCase() === 'cancel') {
+            await channel.send('Token deployment cancelled.');
+            return;
+        }
+        const useDefaultDecimals = decimalsInput.toLowerCase() === 'default';
+        const decimals = useDefaultDecimals ? DEFAULT_DECIMALS : parseInt(decimalsInput, 10);
+        if ((!useDefaultDecimals && !/^\d+$/.test(decimalsInput)) || decimals > 18) {
+            throw new AppError('Invalid Decimals', 'Decimals must be a whole number between 0 and 18.', 'INVALID_DECIMALS');
+        }
+
+        // Step 3: max supply
+        const maxInput = await awaitUserInput(channel, userId, 'Step 3/5: Enter the maximum supply (in whole tokens):');
+        if (maxInput.toLowerCase() === 'cancel') {
+            await channel.send('Token deployment cancelled.');
+            return;
+        }
+        const max = parseTokenAmount(maxInput, decimals);
+
+        // Step 4: mint limit
+        const limInput = await awaitUserInput(channel, userId, 'Step 4/5: Enter the number of tokens per mint:');
+        if (limInput.toLowerCase() === 'cancel') {
+            await channel.send('Token deployment cancelled.');
+            return;
+        }
+        const lim = parseTokenAmount(limInput, decimals);
+        if (lim > max) {
+            throw new AppError('Invalid Mint Limit', 'The mint limit cannot exceed the maximum supply.', 'INVALID_MINT_LIMIT');
+        }
+
+        // Step 5: optional pre-mint and its recipient
+        const preInput = await awaitUserInput(channel, userId, 'Step 5/5: Enter a pre-mint amount, or `none` for a fair launch:');
+        if (preInput.toLowerCase() === 'cancel') {
+            await channel.send('Token deployment cancelled.');
+            return;
+        }
+        let preMint: bigint | undefined;
+        let to: string | undefined;
+        if (preInput.toLowerCase() !== 'none') {
+            preMint = parseTokenAmount(preInput, decimals);
+            if (preMint > max) {
+                throw new AppError('Invalid Pre-Mint', 'The pre-mint cannot exceed the maximum supply.', 'INVALID_PRE_MINT');
+            }
+
+            const toInput = await awaitUserInput(channel, userId, 'Enter the address that should receive the pre-mint, or `me` to use your wallet address:');
+            to = toInput.toLowerCase() === 'me' ? userSession.address : toInput;
+            validateAddress(to, network);
+        }
+
+        const params: DeployParameters = { ticker, max, lim, decimals, preMint, to };
+        const spend = getDeploySpend(params);
+        await assertSpendAllowed(userId, spend);
+
+        const previewEmbed = createDeployPreviewEmbed(params, network);
+        const deployFees = resolveInscriptionFees();
+        const costEmbed = new EmbedBuilder()
+            .setColor(0x0099FF)
+            .setTitle('Deployment Cost')
+            .addFields(
+                { name: 'Deploy Fee', value: `${DEPLOY_FEE} KAS`, inline: true },
+                { name: 'Estimated Network Fees', value: `~${formatSompi(deployFees.commitFee, network)} (commit)`, inline: true },
+                { name: 'Temporarily Locked', value: `${formatSompi(deployFees.commitAmount, network)} (returned by the reveal)`, inline: true }
+            )
+            .setFooter({ text: `Network: ${network}` });
+
+        const confirmRow = new ActionRowBuilder<ButtonBuilder>()
+            .addComponents(
+                createButton('confirm_deploy', 'Deploy', ButtonStyle.Success),
+                createButton('cancel_deploy', 'Cancel', ButtonStyle.Danger)
+            );
+
+        const confirmMessage = await channel.send({ embeds: [previewEmbed, costEmbed], components: [confirmRow] });
+
+        try {
+            const confirmation = await confirmMessage.awaitMessageComponent({
+                filter: (i: MessageComponentInteraction) => i.user.id === userId && ['confirm_deploy', 'cancel_deploy'].includes(i.customId),
+                time: 120000
+            });
+
+            await confirmation.deferUpdate();
+            await confirmMessage.edit({ components: [] }).catch(error => Logger.error(`Failed to remove deploy buttons: ${error}`));
+
+            if (confirmation.customId !== 'confirm_deploy') {
+                await channel.send('Token deployment cancelled.');
+                return;
+            }
+        } catch (interactionError) {
+            Logger.error(`Interaction failed for user ${userId}: ${interactionError}`);
+            await channel.send('The confirmation interaction failed or timed out. Please start the deployment again.');
+            return;
+        }
+        await confirmStepUp(channel, userId, spend, { value: spend.amount, decimals: KAS_DECIMALS, display: formatSompi(spend.amount, network) });
+
+        const deployingMessage = await channel.send(`Deploying ${ticker}. This may take a few minutes...`);
+
+        try {
+            const result = await deployToken(userId, network, params, userSession.privateKey);
+            startTracking(deployingMessage, `Deployment of ${ticker}`, network, result.revealTxId, {
+                krc20: true,
+                footer: `Once indexed, use \`!status ${ticker}\` to see it live.`
+            });
+        } catch (deployError) {
+            Logger.error(`Deploy error for user ${userId}: ${deployError}`);
+            await deployingMessage.edit(formatInscriptionError(deployError, 'token deployment'));
+        }
+    } catch (error) {
+        await handleError(error, channel, 'deployTokenPrompt');
+    } finally {
+        walletSessions.setState(userId, WalletState.WALLET_ACTIONS);
+    }
 };
\ No newline at end of file
@@ -1,11 +1,13 @@
-import { Client, GatewayIntentBits, Message, ChannelType } from 'discord.js';
+import { Client, GatewayIntentBits, Message, ChannelType, Events, Partials } from 'discord.js';
 import dotenv from 'dotenv';
-import { handleStatusCommand } from './commands/status.js';
-import { handleLinksCommand } from './commands/links.js';
-import { handleHelpCommand } from './commands/help.js';
-import { handleDonateCommand } from './commands/donate.js';
-import { handleBalanceCommand } from './commands/balance.js';
+import { registerSlashCommands, handleChatInputCommand, handleAutocomplete, handlePrefixCommand, handleDirectMessage } from './commands/registry.js';
+import { startPendingInscriptionRecovery } from './commands/recover.js';
+import { startPaymentScheduler } from './commands/schedule.js';
+import { startPaymentRequestWatcher } from './utils/paymentRequests';
+import { startIncomingPaymentNotifier } from './utils/paymentNotifications';
+import { warmTickerCache } from './utils/tokenInfo';
 import { handleError } from './utils/errorHandler';
+import { recordChannelActivity } from './utils/channelActivity';
 import express from 'express';
 
 const app = express();
@@ -22,14 +24,32 @@ const client = new Client({
     GatewayIntentBits.DirectMessageTyping,
     GatewayIntentBits.DirectMessageReactions,
   ],
+  // DM channels are not cached ahead of time, so they arrive as partials
+  partials: [Partials.Channel],
 });
 
-client.once('ready', () => {
-  console.log(`Kat Wallet Bot logged in as ${client.user?.tag}!`);
+client.once(Events.ClientReady, async (readyClient) => {
+  console.log(`Kat Wallet Bot logged in as ${readyClient.user.tag}!`);
+  await registerSlashCommands(readyClient);
+  warmTickerCache();
+  await startPendingInscriptionRecovery(readyClient)
+    .catch(error => console.error('Failed to check pending inscriptions:', error));
+  startPaymentScheduler(readyClient);
+  startPaymentRequestWatcher(readyClient);
+  startIncomingPaymentNotifier(readyClient);
+});
+
+client.on(Events.InteractionCreate, async (interaction) => {
+    if (interaction.isChatInputCommand()) {
+        await handleChatInputCommand(interaction);
+    } else if (interaction.isAutocomplete()) {
+        await handleAutocomplete(interaction);
+    }
 });
 
 client.on('messageCreate', async (message: Message) => {
-    console.log(`Raw message received: ${message.content} from ${message.author.tag} in ${message.channel.type}`);
+    // Never log message content: DMs carry seed phrases, vault passphrases and spending PINs
+    console.log(`Message received from ${message.author.tag} in ${message.channel.type}`);
 
     if (message.author.bot) {
         console.log('[messageCreate] Message from bot, ignoring');
@@ -40,33 +60,17 @@ client.on('messageCreate', async (message: Message) => {
         // Handle DM messages
         if (message.channel.type === ChannelType.DM) {
             console.log(`[messageCreate] Processing DM from user: ${message.author.id}`);
-            // Removed wallet handling for DMs
+            await handleDirectMessage(message);
             return;
         }
 
-        // Parse command and arguments
-        const args = message.content.slice(1).trim().split(/ +/);
-        const command = args.shift()?.toLowerCase();
+        // Rain picks its recipients from members who spoke recently
+        recordChannelActivity(message.channelId, message.author.id);
 
-        // Handle guild messages
-        switch (command) {
-            case 'balance':
-                await handleBalanceCommand(message, args);
-                break;
-            case 'status':
-                await handleStatusCommand(message, args);
-                break;
-            case 'links':
-                await handleLinksCommand(message);
-                break;
-            case 'helpmenu':  // Changed from 'help' to 'helpmenu'
-                await handleHelpCommand(message);
-                break;
-            case 'donate':
-                await handleDonateCommand(message);
-                break;
-            default:
-                console.log('[messageCreate] Message did not match any known commands');
+        // Prefix commands are routed through the same registry as slash commands
+        const handled = await handlePrefixCommand(message);
+        if (!handled) {
+            console.log('[messageCreate] Message did not match any known commands');
         }
     } catch (error) {
         await handleError(error, message.channel, 'messageCreate');
@@ -77,4 +81,4 @@ client.login(process.env.DISCORD_TOKEN);
 
 process.on('unhandledRejection', (error) => {
     console.error('Unhandled promise rejection:', error);
-});
\ No newline at end of file
+});
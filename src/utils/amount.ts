@@ -0,0 +1,86 @@
+import { AppError } from './errorHandler';
+
+/**
+ * Exact amounts for KAS and KRC-20 tokens. Values are bigints in the asset's
+ * smallest unit (sompi for KAS) and never pass through floating point, so
+ * supplies above 2^53 format and compare correctly.
+ */
+
+export const KAS_DECIMALS = 8;
+
+const AMOUNT_PATTERN = /^(\d+(\.\d*)?|\.\d+)$/;
+
+const pow10 = (decimals: number): bigint => 10n ** BigInt(decimals);
+
+// Kasplex reports decimals as strings
+const toDecimals = (decimals: number | string): number => {
+    const places = typeof decimals === 'string' ? parseInt(decimals, 10) : decimals;
+    if (!Number.isInteger(places) || places < 0) {
+        throw new AppError('Invalid decimals', `Invalid number of decimal places: ${decimals}`, 'INVALID_DECIMALS');
+    }
+    return places;
+};
+
+/**
+ * Parses user input into the smallest unit, e.g. ("1.5", 8) -> 150000000n.
+ * Grouping commas are accepted; zero only when `allowZero` is set.
+ */
+export function parseTokenAmount(amount: string, decimals: number, options: { allowZero?: boolean } = {}): bigint {
+    const trimmed = amount.trim().replace(/,/g, '');
+    if (!AMOUNT_PATTERN.test(trimmed)) {
+        throw new AppError('Invalid amount', 'Please enter a valid positive number for the amount.', 'INVALID_AMOUNT');
+    }
+
+    const [integerPart, fractionalPart = ''] = trimmed.split('.');
+    if (fractionalPart.length > decimals) {
+        throw new AppError(
+            'Invalid amount',
+            decimals === 0 ? 'This amount must be a whole number.' : `Amounts can have at most ${decimals} decimal places here.`,
+            'INVALID_AMOUNT_PRECISION'
+        );
+    }
+
+    const value = BigInt((integerPart || '0') + fractionalPart.padEnd(decimals, '0'));
+    if (value < 0n || (value === 0n && !options.allowZero)) {
+        throw new AppError('Invalid amount', 'Please enter a valid positive number for the amount.', 'INVALID_AMOUNT');
+    }
+    return value;
+}
+
+/**
+ * Formats a smallest-unit amount with en-US grouping and without trailing
+ * zeros, e.g. (123456789012n, 8) -> "1,234.56789012".
+ */
+export function formatAmount(value: bigint | string, decimals: number | string): string {
+    const places = toDecimals(decimals);
+    const units = BigInt(value);
+    const absolute = units < 0n ? -units : units;
+    const divisor = pow10(places);
+
+    const integerPart = (absolute / divisor).toLocaleString('en-US');
+    const fractionalPart = places > 0 ? (absolute % divisor).toString().padStart(places, '0').replace(/0+$/, '') : '';
+    return `${units < 0n ? '-' : ''}${integerPart}${fractionalPart ? `.${fractionalPart}` : ''}`;
+}
+
+export const sumAmounts = (values: Iterable<bigint>): bigint => {
+    let total = 0n;
+    for (const value of values) {
+        total += value;
+    }
+    return total;
+};
+
+/**
+ * `part` as a percentage of `whole`, rounded half up to `fractionDigits`,
+ * e.g. (1n, 3n) -> "33.33%".
+ */
+export function formatPercentage(part: bigint, whole: bigint, fractionDigits: number = 2): string {
+    if (whole === 0n) {
+        return `${(0).toFixed(fractionDigits)}%`;
+    }
+    const scale = pow10(fractionDigits);
+    const scaled = (part * 100n * scale * 2n + whole) / (whole * 2n);
+    const integerPart = scaled / scale;
+    const fractionalPart = (scaled % scale).toString().padStart(fractionDigits, '0');
+    return fractionDigits > 0 ? `${integerPart}.${fractionalPart}%` : `${integerPart}%`;
+}
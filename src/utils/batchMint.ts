@@ -0,0 +1,117 @@
+import { Network, userSettings } from './userSettings';
+import { getRpcClient } from './rpcConnection';
+import { mintToken } from './mintToken';
+import { fetchTokenInfo } from './tokenInfo';
+import { estimateInscriptionCost } from './krc20Inscription';
+import { Logger } from './logger';
+import { AppError } from './errorHandler';
+
+export const MAX_MINT_COUNT = 100;
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+export type BatchMintStopReason = 'completed' | 'stopped' | 'insufficient_balance' | 'finished' | 'spending_limit' | 'too_many_failures';
+
+export interface BatchMintProgress {
+    requested: number;
+    done: number;
+    failed: number;
+    remaining: number;
+    lastTxId?: string;
+    lastError?: string;
+    /** Reveals of the successful mints, so they can be tracked once the batch ends. */
+    txIds: string[];
+}
+
+export interface MintCostEstimate {
+    perMint: bigint;
+    total: bigint;
+    requiredBalance: bigint;
+}
+
+/**
+ * Each mint pays the commit and reveal fees. The commit amount is returned by
+ * the reveal, but has to be available while a mint is in flight.
+ */
+export function estimateMintCost(count: number, priorityFee: bigint = 0n): MintCostEstimate {
+    const { fees, locked } = estimateInscriptionCost({ priorityFee });
+    const total = fees * BigInt(count);
+    return { perMint: fees, total, requiredBalance: total + locked };
+}
+
+// Inscriptions are funded from the primary address only
+const getPrimaryBalance = async (userId: string, network: Network, address: string): Promise<bigint> => {
+    const rpc = await getRpcClient(userId, network);
+    const { balance } = await rpc.getBalanceByAddress({ address });
+    return BigInt(balance);
+};
+
+interface BatchMintOptions {
+    userId: string;
+    network: Network;
+    ticker: string;
+    priorityFee: bigint;
+    count: number;
+    shouldStop: () => boolean;
+    onProgress: (progress: BatchMintProgress) => Promise<void>;
+}
+
+/**
+ * Mints `count` times in sequence. Before each mint it stops if asked to, if
+ * the wallet can no longer fund a mint, or if the token is fully minted.
+ */
+export async function runBatchMint(options: BatchMintOptions): Promise<{ progress: BatchMintProgress; reason: BatchMintStopReason }> {
+    const { userId, network, ticker, priorityFee, count, shouldStop, onProgress } = options;
+    const progress: BatchMintProgress = { requested: count, done: 0, failed: 0, remaining: count, txIds: [] };
+    const { requiredBalance: minimumBalance } = estimateMintCost(1, priorityFee);
+    let consecutiveFailures = 0;
+
+    Logger.info(`Starting batch mint of ${count} x ${ticker} for user: ${userId}`);
+
+    while (progress.remaining > 0) {
+        // Ending or locking the session wipes the key, which also ends the batch
+        const userSession = userSettings.get(userId);
+        if (shouldStop() || !userSession?.privateKey || !userSession.address) {
+            return { progress, reason: 'stopped' };
+        }
+
+        try {
+            const tokenInfo = await fetchTokenInfo(ticker, network);
+            if (tokenInfo?.state === 'finished') {
+                return { progress, reason: 'finished' };
+            }
+        } catch (error) {
+            // A flaky indexer should not stop the batch; the mint itself will fail if the token is gone
+            Logger.warn(`Could not check ${ticker} state during batch mint: ${error}`);
+        }
+
+        if (await getPrimaryBalance(userId, network, userSession.address) < minimumBalance) {
+            return { progress, reason: 'insufficient_balance' };
+        }
+
+        try {
+            const result = await mintToken(userId, network, ticker, priorityFee, userSession.privateKey);
+            progress.lastTxId = result.revealTxId;
+            progress.txIds.push(result.revealTxId);
+            progress.done++;
+            consecutiveFailures = 0;
+        } catch (error) {
+            if (error instanceof AppError && error.code === 'SPENDING_LIMIT_EXCEEDED') {
+                progress.lastError = error.userMessage;
+                return { progress, reason: 'spending_limit' };
+            }
+            progress.failed++;
+            progress.lastError = error instanceof AppError ? error.userMessage : error instanceof Error ? error.message : String(error);
+            consecutiveFailures++;
+            Logger.error(`Batch mint ${progress.done + progress.failed}/${count} failed for user ${userId}: ${error}`);
+        }
+        progress.remaining--;
+
+        await onProgress(progress);
+
+        if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+            return { progress, reason: 'too_many_failures' };
+        }
+    }
+
+    return { progress, reason: 'completed' };
+}
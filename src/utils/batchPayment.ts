@@ -0,0 +1,114 @@
+import { Network } from './userSettings';
+import { PaymentOutput } from './sendKaspa';
+import { validateAddress } from './inputValidation';
+import { parseTokenAmount, KAS_DECIMALS } from './amount';
+import { AppError } from './errorHandler';
+
+export const MAX_BATCH_ROWS = 100;
+export const MAX_BATCH_FILE_SIZE = 64 * 1024;
+
+export interface BatchRow {
+    line: number;
+    address: string;
+    amount: string;
+    sompi?: bigint;
+    error?: string;
+}
+
+export interface ParsedBatch {
+    valid: BatchRow[];
+    invalid: BatchRow[];
+}
+
+export type BatchRowStatus = 'sent' | 'failed' | 'invalid';
+
+const errorMessage = (error: unknown): string =>
+    error instanceof AppError ? error.userMessage : error instanceof Error ? error.message : String(error);
+
+const validateRow = (row: BatchRow, network: Network): BatchRow => {
+    try {
+        validateAddress(row.address, network);
+        return { ...row, sompi: parseTokenAmount(row.amount, KAS_DECIMALS) };
+    } catch (error) {
+        return { ...row, error: errorMessage(error) };
+    }
+};
+
+/**
+ * Parses an `address,amount` CSV. Blank lines, `#` comments and a header row
+ * are skipped; every other row is validated for the given network.
+ */
+export function parsePaymentCsv(content: string, network: Network): ParsedBatch {
+    const rows: BatchRow[] = [];
+
+    content.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) {
+            return;
+        }
+
+        const [address = '', amount = '', ...extra] = line.split(',').map(field => field.trim().replace(/^"|"$/g, ''));
+        if (rows.length === 0 && address.toLowerCase() === 'address') {
+            return;
+        }
+
+        if (extra.some(field => field !== '')) {
+            rows.push({ line: index + 1, address, amount, error: 'Expected exactly two columns: address,amount' });
+            return;
+        }
+        rows.push(validateRow({ line: index + 1, address, amount }, network));
+    });
+
+    if (rows.length === 0) {
+        throw new AppError('Empty batch', 'The CSV file does not contain any payment rows.', 'EMPTY_BATCH');
+    }
+    if (rows.length > MAX_BATCH_ROWS) {
+        throw new AppError('Batch too large', `A batch can contain at most ${MAX_BATCH_ROWS} payments (the file has ${rows.length}).`, 'BATCH_TOO_LARGE');
+    }
+
+    return {
+        valid: rows.filter(row => !row.error),
+        invalid: rows.filter(row => row.error)
+    };
+}
+
+export const toPaymentOutputs = (rows: BatchRow[]): PaymentOutput[] =>
+    rows.map(row => ({ address: row.address, amount: row.sompi! }));
+
+const csvField = (value: string): string =>
+    /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Builds the downloadable per-row report. Valid rows share the batch outcome,
+ * since all outputs are paid by the same final transaction.
+ */
+export function buildBatchReport(batch: ParsedBatch, outcome: { status: 'sent'; txId: string } | { status: 'failed'; error: string }): string {
+    const lines = ['line,address,amount,status,transaction_id,error'];
+    const rows = [...batch.valid, ...batch.invalid].sort((a, b) => a.line - b.line);
+
+    rows.forEach(row => {
+        let status: BatchRowStatus;
+        let txId = '';
+        let error = row.error ?? '';
+        if (row.error) {
+            status = 'invalid';
+        } else if (outcome.status === 'sent') {
+            status = 'sent';
+            txId = outcome.txId;
+        } else {
+            status = 'failed';
+            error = outcome.error;
+        }
+        lines.push([row.line.toString(), row.address, row.amount, status, txId, error].map(csvField).join(','));
+    });
+
+    return lines.join('\n') + '\n';
+}
+
+export const formatInvalidRows = (rows: BatchRow[], limit = 10): string => {
+    const listed = rows.slice(0, limit).map(row => `Line ${row.line}: ${row.error}`);
+    if (rows.length > limit) {
+        listed.push(`...and ${rows.length - limit} more (see the report file)`);
+    }
+    return listed.join('\n');
+};
@@ -0,0 +1,34 @@
+import { Collection } from 'discord.js';
+
+// Activity older than this is never asked for, so it is pruned as channels are updated
+const MAX_ACTIVITY_AGE = 24 * 60 * 60 * 1000;
+
+const channelActivity = new Collection<string, Collection<string, number>>();
+
+/**
+ * Remembers when each member last spoke in a guild channel. Kept in memory
+ * only: after a restart a channel simply has no recent activity until
+ * members talk again.
+ */
+export function recordChannelActivity(channelId: string, userId: string): void {
+    const now = Date.now();
+    let activity = channelActivity.get(channelId);
+    if (!activity) {
+        activity = new Collection();
+        channelActivity.set(channelId, activity);
+    }
+    activity.set(userId, now);
+    activity.sweep(lastSeen => now - lastSeen > MAX_ACTIVITY_AGE);
+}
+
+/**
+ * Members who spoke in the channel within `window` ms, most recent first.
+ */
+export function getRecentlyActive(channelId: string, window: number): string[] {
+    const since = Date.now() - window;
+    const activity = channelActivity.get(channelId);
+    if (!activity) {
+        return [];
+    }
+    return [...activity.filter(lastSeen => lastSeen >= since).sort((a, b) => b - a).keys()];
+}
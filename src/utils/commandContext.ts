@@ -0,0 +1,121 @@
+import { BaseMessageOptions, ChatInputCommandInteraction, Message, TextBasedChannel, User, ApplicationCommandOptionType, APIApplicationCommandOption } from 'discord.js';
+import { MessageTarget } from './errorHandler';
+
+export type CommandResponse = string | (BaseMessageOptions & { ephemeral?: boolean });
+
+export interface CommandContext extends MessageTarget {
+    source: 'slash' | 'prefix';
+    user: User;
+    userId: string;
+    guildId: string | null;
+    channel: TextBasedChannel | null;
+    subcommand: string | null;
+    getString(name: string): string | undefined;
+    getInteger(name: string): number | undefined;
+    getUser(name: string): User | undefined;
+    getRoleId(name: string): string | undefined;
+    reply(response: CommandResponse): Promise<void>;
+    defer(ephemeral?: boolean): Promise<void>;
+}
+
+const toPayload = (response: CommandResponse) =>
+    typeof response === 'string' ? { content: response } : response;
+
+export const createInteractionContext = (interaction: ChatInputCommandInteraction): CommandContext => {
+    const reply = async (response: CommandResponse) => {
+        const payload = toPayload(response);
+        if (interaction.deferred && !interaction.replied) {
+            const { ephemeral, ...rest } = payload;
+            await interaction.editReply(rest);
+        } else if (interaction.replied) {
+            await interaction.followUp(payload);
+        } else {
+            await interaction.reply(payload);
+        }
+    };
+
+    return {
+        source: 'slash',
+        user: interaction.user,
+        userId: interaction.user.id,
+        guildId: interaction.guildId,
+        channel: interaction.channel,
+        subcommand: interaction.options.getSubcommand(false),
+        getString: (name) => interaction.options.getString(name) ?? undefined,
+        getInteger: (name) => interaction.options.getInteger(name) ?? undefined,
+        getUser: (name) => interaction.options.getUser(name) ?? undefined,
+        getRoleId: (name) => interaction.options.getRole(name)?.id,
+        reply,
+        send: (content) => reply({ content, ephemeral: true }),
+        defer: async (ephemeral = false) => {
+            if (!interaction.deferred && !interaction.replied) {
+                await interaction.deferReply({ ephemeral });
+            }
+        }
+    };
+};
+
+/**
+ * Maps positional prefix arguments (`!balance <address> <network>`) onto the
+ * option names declared by the slash command, so handlers only ever read
+ * options by name regardless of how they were invoked.
+ */
+export const createMessageContext = (message: Message, options: APIApplicationCommandOption[], args: string[]): CommandContext => {
+    const remaining = [...args];
+    let subcommand: string | null = null;
+    let declared = options;
+
+    const subcommands = options.filter(option => option.type === ApplicationCommandOptionType.Subcommand);
+    if (subcommands.length > 0) {
+        const requested = remaining[0]?.toLowerCase();
+        const match = subcommands.find(option => option.name === requested);
+        if (match) {
+            remaining.shift();
+            subcommand = match.name;
+            declared = 'options' in match && match.options ? match.options : [];
+        } else {
+            declared = [];
+        }
+    }
+
+    const values = new Map<string, string>();
+    declared.forEach((option, index) => {
+        if (remaining[index] !== undefined) {
+            values.set(option.name, remaining[index]);
+        }
+    });
+
+    const reply = async (response: CommandResponse) => {
+        const { ephemeral, ...payload } = toPayload(response);
+        await message.reply(payload);
+    };
+
+    return {
+        source: 'prefix',
+        user: message.author,
+        userId: message.author.id,
+        guildId: message.guildId,
+        channel: message.channel,
+        subcommand,
+        getString: (name) => values.get(name),
+        getInteger: (name) => {
+            const value = values.get(name);
+            if (value === undefined) return undefined;
+            const parsed = parseInt(value, 10);
+            return isNaN(parsed) ? undefined : parsed;
+        },
+        getUser: (name) => {
+            // Prefix commands receive users as mentions, e.g. <@123> or <@!123>
+            const mention = values.get(name)?.match(/^<@!?(\d+)>$/);
+            return mention ? message.mentions.users.get(mention[1]) : undefined;
+        },
+        getRoleId: (name) => values.get(name)?.match(/^<@&(\d+)>$/)?.[1],
+        reply,
+        send: (content) => reply(content),
+        defer: async () => {
+            if ('sendTyping' in message.channel) {
+                await message.channel.sendTyping();
+            }
+        }
+    };
+};
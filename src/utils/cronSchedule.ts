@@ -0,0 +1,115 @@
+import { AppError } from './errorHandler';
+
+const FIELD_RANGES: [number, number][] = [
+    [0, 59], // minute
+    [0, 23], // hour
+    [1, 31], // day of month
+    [1, 12], // month
+    [0, 6],  // day of week, Sunday = 0
+];
+
+// Longest possible gap between matching days: 29 February can skip a century year
+const MAX_SEARCH_DAYS = 8 * 366 + 1;
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+const MINUTE = 60 * 1000;
+
+interface CronFields {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    anyDayOfMonth: boolean;
+    anyDayOfWeek: boolean;
+}
+
+const invalidCron = (expression: string) => new AppError(
+    'Invalid cron expression',
+    `"${expression}" is not a valid cron expression. Use five fields (minute hour day month weekday) in UTC, e.g. \`0 12 * * 1\` for every Monday at 12:00.`,
+    'INVALID_CRON'
+);
+
+const sorted = (values: Set<number>): number[] => [...values].sort((a, b) => a - b);
+
+const parseField = (field: string, [min, max]: [number, number], expression: string): Set<number> => {
+    const values = new Set<number>();
+    for (const part of field.split(',')) {
+        const match = part.match(/^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/);
+        if (!match) {
+            throw invalidCron(expression);
+        }
+        const start = match[1] === '*' ? min : parseInt(match[1], 10);
+        const end = match[2] !== undefined ? parseInt(match[2], 10) : (match[1] === '*' || match[3] !== undefined ? max : start);
+        const step = match[3] !== undefined ? parseInt(match[3], 10) : 1;
+        if (start < min || end > max || start > end || step < 1) {
+            throw invalidCron(expression);
+        }
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+    return values;
+};
+
+/**
+ * Parses a standard five-field cron expression (minute hour day month
+ * weekday) supporting `*`, lists, ranges and steps. Times are UTC.
+ */
+export function parseCron(expression: string): CronFields {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw invalidCron(expression);
+    }
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELD_RANGES[index], expression));
+    const anyDayOfMonth = fields[2] === '*';
+    const anyDayOfWeek = fields[4] === '*';
+
+    // A restricted weekday always matches eventually; days of the month only if one exists in a chosen month
+    const dayExists = [...months].some(month => [...daysOfMonth].some(day => day <= DAYS_IN_MONTH[month - 1]));
+    if (!dayExists && (anyDayOfMonth || anyDayOfWeek)) {
+        throw new AppError(
+            'Invalid cron expression',
+            `"${expression}" never runs: none of its days of the month exist in its months.`,
+            'INVALID_CRON'
+        );
+    }
+    return { minutes, hours, daysOfMonth, months, daysOfWeek, anyDayOfMonth, anyDayOfWeek };
+}
+
+const matchesDay = (fields: CronFields, date: Date): boolean => {
+    const dayOfMonth = fields.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = fields.daysOfWeek.has(date.getUTCDay());
+    // As in cron, when both day fields are restricted a match on either is enough
+    if (!fields.anyDayOfMonth && !fields.anyDayOfWeek) {
+        return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+};
+
+/**
+ * The first time strictly after `after` that the expression matches. Walks
+ * day by day, so even rare schedules like 29 February resolve quickly.
+ */
+export function nextCronRun(expression: string, after: number): number {
+    const fields = parseCron(expression);
+    const hours = sorted(fields.hours);
+    const minutes = sorted(fields.minutes);
+    const earliest = Math.floor(after / MINUTE) * MINUTE + MINUTE;
+
+    const start = new Date(earliest);
+    const day = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()));
+    for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+        if (fields.months.has(day.getUTCMonth() + 1) && matchesDay(fields, day)) {
+            for (const hour of hours) {
+                for (const minute of minutes) {
+                    const candidate = day.getTime() + (hour * 60 + minute) * MINUTE;
+                    if (candidate >= earliest) {
+                        return candidate;
+                    }
+                }
+            }
+        }
+        day.setUTCDate(day.getUTCDate() + 1);
+    }
+    throw invalidCron(expression);
+}
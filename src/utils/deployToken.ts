@@ -0,0 +1,63 @@
+import { Network } from './userSettings';
+import { submitInscription, estimateInscriptionCost, KRC20Payload, InscriptionResult, kasToSompi } from './krc20Inscription';
+import { withSpendingLimit, Spend } from './spendingLimits';
+import { Logger } from './logger';
+import { AppError } from './errorHandler';
+
+export const DEPLOY_FEE = "1000"; // KAS charged by Kasplex for every deploy, paid as the reveal fee
+export const DEFAULT_DECIMALS = 8;
+
+export interface DeployParameters {
+    ticker: string;
+    max: bigint;
+    lim: bigint;
+    decimals: number;
+    preMint?: bigint;
+    to?: string;
+}
+
+export const buildDeployPayload = (params: DeployParameters): KRC20Payload => {
+    const payload: KRC20Payload = {
+        "p": "krc-20",
+        "op": "deploy",
+        "tick": params.ticker,
+        "max": params.max.toString(),
+        "lim": params.lim.toString()
+    };
+
+    if (params.decimals !== DEFAULT_DECIMALS) {
+        payload.dec = params.decimals.toString();
+    }
+    if (params.preMint && params.preMint > 0n) {
+        payload.pre = params.preMint.toString();
+        if (params.to) {
+            payload.to = params.to;
+        }
+    }
+    return payload;
+};
+
+// The deploy fee replaces the standard reveal fee, so this is the commit fee plus DEPLOY_FEE
+export const estimateDeployCost = () => estimateInscriptionCost({ revealFee: kasToSompi(DEPLOY_FEE) });
+
+/** A pre-mint sends tokens to `to`, so it is checked against the allowlist like a transfer. */
+export const getDeploySpend = (params: DeployParameters): Spend => ({
+    kind: 'deploy',
+    amount: estimateDeployCost().fees,
+    destinations: params.preMint && params.to ? [params.to] : []
+});
+
+export const deployToken = async (userId: string, network: Network, params: DeployParameters, privateKeyString: string): Promise<InscriptionResult> => {
+    Logger.info(`Starting token deployment of ${params.ticker} for user: ${userId}`);
+
+    try {
+        return await withSpendingLimit(userId, getDeploySpend(params), () =>
+            submitInscription(userId, network, buildDeployPayload(params), privateKeyString, { revealFee: kasToSompi(DEPLOY_FEE) }));
+    } catch (error) {
+        Logger.error(`Error during token deployment: ${error}`);
+        if (error instanceof AppError) {
+            throw error;
+        }
+        throw new AppError('Deploy Error', `Error during token deployment: ${error}`, 'DEPLOY_ERROR');
+    }
+};
@@ -12,9 +12,13 @@ export class AppError extends Error {
   }
 }
 
+export interface MessageTarget {
+  send(content: string): Promise<unknown>;
+}
+
 export async function handleError(
   error: unknown,
-  channel: TextBasedChannel,
+  channel: TextBasedChannel | MessageTarget,
   context: string
 ): Promise<void> {
   if (error instanceof AppError) {
@@ -0,0 +1,63 @@
+import { getRpcClient } from './rpcConnection';
+import { Network } from './userSettings';
+import { retryableRequest, handleNetworkError } from './networkUtils';
+import { Logger } from './logger';
+
+export type FeePriority = 'low' | 'normal' | 'fast';
+
+export interface FeeBucket {
+    priority: FeePriority;
+    feerate: number; // sompi per gram of mass
+    estimatedSeconds: number;
+}
+
+// createTransactions already pays the minimum relay fee of 1 sompi per gram
+const MINIMUM_FEERATE = 1;
+
+interface RpcFeerateBucket {
+    feerate: number;
+    estimatedSeconds: number;
+}
+
+const toBucket = (priority: FeePriority, bucket: RpcFeerateBucket): FeeBucket => ({
+    priority,
+    feerate: bucket.feerate,
+    estimatedSeconds: bucket.estimatedSeconds
+});
+
+/**
+ * Queries the node's fee estimate and reduces it to Low/Normal/Fast buckets.
+ * The node returns buckets ordered from highest to lowest feerate.
+ */
+export const getFeeBuckets = async (userId: string, network: Network): Promise<FeeBucket[]> => {
+    try {
+        return await retryableRequest(async () => {
+            const rpc = await getRpcClient(userId, network);
+            const { estimate } = await rpc.getFeeEstimate({});
+
+            const normal: RpcFeerateBucket = estimate.normalBuckets?.[0] ?? estimate.priorityBucket;
+            const low: RpcFeerateBucket = estimate.lowBuckets?.[0] ?? normal;
+
+            Logger.info(`Fee estimate for ${network}: fast ${estimate.priorityBucket.feerate}, normal ${normal.feerate}, low ${low.feerate}`);
+            return [
+                toBucket('low', low),
+                toBucket('normal', normal),
+                toBucket('fast', estimate.priorityBucket)
+            ];
+        }, 'Error fetching fee estimate');
+    } catch (error) {
+        throw handleNetworkError(error, 'fetching fee estimate');
+    }
+};
+
+/**
+ * Converts a feerate into the priority fee passed to createTransactions, on
+ * top of the minimum fee it already includes for the given mass.
+ */
+export const priorityFeeForFeerate = (feerate: number, mass: bigint): bigint => {
+    const extraRate = Math.max(0, feerate - MINIMUM_FEERATE);
+    return BigInt(Math.ceil(extraRate * Number(mass)));
+};
+
+export const formatEstimatedTime = (seconds: number): string =>
+    seconds < 60 ? `~${Math.max(1, Math.round(seconds))}s` : `~${Math.round(seconds / 60)} min`;
@@ -1,8 +1,8 @@
-import { Mnemonic, PrivateKey, Address, NetworkType } from '../../wasm/kaspa/kaspa';
-import { userSettings, Network } from './userSettings';
+import { Mnemonic } from '../../wasm/kaspa/kaspa';
+import { Network } from './userSettings';
 import { retryableRequest, handleNetworkError } from './networkUtils';
 import { Logger } from './logger';
-import { AppError } from './errorHandler';
+import { deriveWalletFromMnemonic, storeDerivedWallet } from './importWallet';
 
 export async function generateNewWallet(userId: string, network: Network): Promise<{ address: string; privateKey: string; mnemonic: string }> {
     Logger.info(`Generating new wallet for user: ${userId} on network: ${network}`);
@@ -12,29 +12,17 @@ export async function generateNewWallet(userId: string, network: Network): Promi
             const mnemonic = Mnemonic.random(24);
             Logger.info(`Mnemonic generated successfully`);
 
-            const seed = mnemonic.toSeed();
-            const validSeed = seed.length === 128 ? seed.slice(0, 64) : seed;
-            if (validSeed.length !== 64) {
-                throw new AppError('Invalid Seed', `Invalid seed length: ${validSeed.length}`, 'INVALID_SEED');
-            }
+            // Derive the first receive address on the standard Kaspa path so the
+            // phrase restores to the same address in any other Kaspa wallet
+            const wallet = deriveWalletFromMnemonic(mnemonic.phrase, undefined, 0, 0, network);
+            const { address, privateKey } = wallet;
 
-            const privateKey = new PrivateKey(validSeed);
-            const publicKey = privateKey.toPublicKey();
-
-            const networkType = userSettings.getNetworkType(network);
-            const address = publicKey.toAddress(networkType);
-
-            userSettings.set(userId, {
-                network,
-                privateKey: privateKey.toString(),
-                address: address.toString(),
-                lastActivity: Date.now()
-            });
+            storeDerivedWallet(wallet, userId, network);
             Logger.info(`User settings stored successfully`);
 
             return {
-                address: address.toString(),
-                privateKey: privateKey.toString(),
+                address,
+                privateKey,
                 mnemonic: mnemonic.toString()
             };
         }, 'Error generating new wallet');
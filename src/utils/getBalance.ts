@@ -1,14 +1,24 @@
-import { Address, NetworkType, sompiToKaspaStringWithSuffix } from '../../wasm/kaspa/kaspa';
-import { getRpcClient } from './rpcConnection';
+import { sompiToKaspaStringWithSuffix } from '../../wasm/kaspa/kaspa';
+import { getTrackedUtxoContext } from './rpcConnection';
+import { getWalletAddresses, discoverUsedAddresses } from './hdWallet';
 import { userSettings, Network } from './userSettings';
 import { retryableRequest, handleNetworkError } from './networkUtils';
 import { Logger } from './logger';
 import { AppError } from './errorHandler';
+import { getEnvNetworkName } from './networkConfig';
+import { formatAmount } from './amount';
 import axios from 'axios';
 
+export interface KRC20BalanceEntry {
+    ticker: string;
+    balance: string;
+    rawBalance: string;
+    decimals: number;
+}
+
 interface BalanceResult {
     kaspaBalance: string;
-    krc20Balances: { ticker: string; balance: string }[];
+    krc20Balances: KRC20BalanceEntry[];
 }
 
 interface KRC20Balance {
@@ -19,32 +29,7 @@ interface KRC20Balance {
     opScoreMod: string;
 }
 
-function getEnvNetworkName(network: Network): string {
-    return network.replace('-', '_').toUpperCase();
-}
-
-function formatKRC20Balance(balance: string, decimals: string): string {
-    const balanceNum = BigInt(balance);
-    const divisor = BigInt(10 ** parseInt(decimals, 10));
-    const integerPart = balanceNum / divisor;
-    const fractionalPart = balanceNum % divisor;
-    
-    // Format integer part with commas
-    let formattedBalance = integerPart.toLocaleString('en-US');
-
-    // Add fractional part if it's not zero
-    if (fractionalPart > 0) {
-        const fractionalStr = fractionalPart.toString().padStart(parseInt(decimals, 10), '0');
-        const trimmedFractionalStr = fractionalStr.replace(/0+$/, ''); // Remove trailing zeros
-        if (trimmedFractionalStr.length > 0) {
-            formattedBalance += '.' + trimmedFractionalStr;
-        }
-    }
-
-    return formattedBalance;
-}
-
-async function fetchKRC20Balances(address: string, network: Network): Promise<{ ticker: string; balance: string }[]> {
+async function fetchKRC20Balances(address: string, network: Network): Promise<KRC20BalanceEntry[]> {
     const envNetworkName = getEnvNetworkName(network);
     const apiBaseUrl = process.env[`${envNetworkName}_API_BASE_URL`];
     if (!apiBaseUrl) {
@@ -61,7 +46,9 @@ async function fetchKRC20Balances(address: string, network: Network): Promise<{
         const balances: KRC20Balance[] = response.data.result || [];
         return balances.map(balance => ({
             ticker: balance.tick.toUpperCase(),
-            balance: formatKRC20Balance(balance.balance, balance.dec)
+            balance: formatAmount(balance.balance, balance.dec),
+            rawBalance: balance.balance,
+            decimals: parseInt(balance.dec, 10)
         }));
     } catch (error) {
         if (axios.isAxiosError(error)) {
@@ -84,22 +71,22 @@ export async function getBalance(userId: string, network: Network): Promise<Bala
 
     try {
         return await retryableRequest(async () => {
-            const rpc = await getRpcClient(userId, network);
-            const address = new Address(userSession.address as string);
-            const balanceResponse = await rpc.getBalanceByAddress({ address: address.toString() });
-            
-            if (!balanceResponse) {
+            // KAS is aggregated over every derived receive and change address
+            await discoverUsedAddresses(userId, userSession);
+            const context = await getTrackedUtxoContext(userId, network, getWalletAddresses(userSession));
+            const balance = context.balance;
+            if (!balance) {
                 throw new AppError('Balance Retrieval Failed', 'Failed to retrieve balance', 'BALANCE_RETRIEVAL_FAILED');
             }
 
-            const networkType = NetworkType[userSession.network as keyof typeof NetworkType];
-            const kaspaBalance = sompiToKaspaStringWithSuffix(balanceResponse.balance, networkType);
+            const networkType = userSettings.getNetworkType(network);
+            const kaspaBalance = sompiToKaspaStringWithSuffix(balance.mature + balance.pending, networkType);
 
             // Fetch KRC20 balances
-            let krc20Balances: { ticker: string; balance: string }[] = [];
+            // KRC20 balances are read for the primary address, the only key inscriptions are signed with
+            let krc20Balances: KRC20BalanceEntry[] = [];
             try {
-                const krc20BalancesRaw = await fetchKRC20Balances(address.toString(), network);
-                krc20Balances = krc20BalancesRaw.map(({ ticker, balance }) => ({ ticker: ticker.toUpperCase(), balance }));
+                krc20Balances = await fetchKRC20Balances(userSession.address as string, network);
             } catch (error) {
                 Logger.error(`Failed to fetch KRC20 balances: ${error}`);
                 // Continue with empty KRC20 balances
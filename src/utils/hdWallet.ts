@@ -0,0 +1,162 @@
+import { PrivateKey, PrivateKeyGenerator, XPrv } from '../../wasm/kaspa/kaspa';
+import { userSettings, Network, UserSession, HdAccount, HdWalletState } from './userSettings';
+import { getRpcClient } from './rpcConnection';
+import { AppError } from './errorHandler';
+import { Logger } from './logger';
+
+// Enough for any realistic Discord wallet while keeping UTXO tracking cheap
+export const MAX_ADDRESSES_PER_CHAIN = 50;
+
+export const createHdWalletState = (xprv: XPrv | string, accountIndex: number = 0, addressIndex: number = 0): HdWalletState => ({
+    xprv: typeof xprv === 'string' ? xprv : xprv.intoString('kprv'),
+    activeAccount: accountIndex,
+    accounts: [{ index: accountIndex, receiveCount: addressIndex + 1, changeCount: 1 }]
+});
+
+const requireHd = (session: UserSession): HdWalletState => {
+    if (!session.hd) {
+        throw new AppError('Not an HD wallet', 'This wallet was imported from a private key and only has a single address. Import your seed phrase to use multiple addresses.', 'NOT_HD_WALLET');
+    }
+    return session.hd;
+};
+
+const getActiveAccount = (hd: HdWalletState): HdAccount => {
+    const account = hd.accounts.find(a => a.index === hd.activeAccount);
+    if (!account) {
+        throw new AppError('Invalid account', `Account ${hd.activeAccount} has not been opened.`, 'INVALID_ACCOUNT');
+    }
+    return account;
+};
+
+const getKeyGenerator = (hd: HdWalletState, accountIndex: number): PrivateKeyGenerator =>
+    new PrivateKeyGenerator(hd.xprv, false, BigInt(accountIndex));
+
+const toAddress = (key: PrivateKey, network: Network): string =>
+    key.toAddress(userSettings.getNetworkType(network)).toString();
+
+export const getReceiveAddresses = (session: UserSession): string[] => {
+    if (!session.hd) {
+        return session.address ? [session.address] : [];
+    }
+    const account = getActiveAccount(session.hd);
+    const generator = getKeyGenerator(session.hd, account.index);
+    return Array.from({ length: account.receiveCount }, (_, i) => toAddress(generator.receiveKey(i), session.network));
+};
+
+export const getChangeAddresses = (session: UserSession): string[] => {
+    if (!session.hd) {
+        return [];
+    }
+    const account = getActiveAccount(session.hd);
+    const generator = getKeyGenerator(session.hd, account.index);
+    return Array.from({ length: account.changeCount }, (_, i) => toAddress(generator.changeKey(i), session.network));
+};
+
+/** Every address of the active account whose UTXOs the wallet can spend. */
+export const getWalletAddresses = (session: UserSession): string[] =>
+    [...getReceiveAddresses(session), ...getChangeAddresses(session)];
+
+export const getWalletPrivateKeys = (session: UserSession): PrivateKey[] => {
+    if (!session.hd) {
+        return session.privateKey ? [new PrivateKey(session.privateKey)] : [];
+    }
+    const account = getActiveAccount(session.hd);
+    const generator = getKeyGenerator(session.hd, account.index);
+    return [
+        ...Array.from({ length: account.receiveCount }, (_, i) => generator.receiveKey(i)),
+        ...Array.from({ length: account.changeCount }, (_, i) => generator.changeKey(i))
+    ];
+};
+
+/** Change goes to the newest change address, or back to the primary address for single-key wallets. */
+export const getChangeAddress = (session: UserSession): string => {
+    const changeAddresses = getChangeAddresses(session);
+    const changeAddress = changeAddresses[changeAddresses.length - 1] ?? session.address;
+    if (!changeAddress) {
+        throw new AppError('Invalid wallet', 'Your wallet is not set up correctly. Please create a new wallet.', 'INVALID_WALLET');
+    }
+    return changeAddress;
+};
+
+/** Sends the next change to a fresh address once the current one has received some. */
+export const advanceChangeAddress = (session: UserSession): void => {
+    if (!session.hd) {
+        return;
+    }
+    const account = getActiveAccount(session.hd);
+    if (account.changeCount < MAX_ADDRESSES_PER_CHAIN) {
+        account.changeCount += 1;
+    }
+};
+
+// Accounts whose chains have been scanned in this session
+const discoveredAccounts = new WeakSet<HdAccount>();
+
+/**
+ * Address counts are not stored with the seed, so an imported or unlocked
+ * wallet scans both chains once for funded addresses and resumes after the
+ * last one on each, keeping their UTXOs in the balance.
+ */
+export const discoverUsedAddresses = async (userId: string, session: UserSession): Promise<void> => {
+    if (!session.hd) {
+        return;
+    }
+    const account = getActiveAccount(session.hd);
+    if (discoveredAccounts.has(account)) {
+        return;
+    }
+
+    const generator = getKeyGenerator(session.hd, account.index);
+    const receive = Array.from({ length: MAX_ADDRESSES_PER_CHAIN }, (_, i) => toAddress(generator.receiveKey(i), session.network));
+    const change = Array.from({ length: MAX_ADDRESSES_PER_CHAIN }, (_, i) => toAddress(generator.changeKey(i), session.network));
+    const rpc = await getRpcClient(userId, session.network);
+    const { entries } = await rpc.getUtxosByAddresses({ addresses: [...receive, ...change] });
+    const funded = new Set((entries as { address?: unknown }[]).map(entry => String(entry.address)));
+    const usedCount = (candidates: string[]) => candidates.reduce((last, address, index) => funded.has(address) ? index : last, -1) + 1;
+
+    // Receive addresses are handed out on request; change moves on to a fresh one
+    account.receiveCount = Math.max(account.receiveCount, usedCount(receive));
+    account.changeCount = Math.max(account.changeCount, Math.min(MAX_ADDRESSES_PER_CHAIN, usedCount(change) + 1));
+    Logger.info(`Resuming account ${account.index} at ${account.receiveCount} receive and ${account.changeCount} change addresses for user: ${userId}`);
+    discoveredAccounts.add(account);
+};
+
+export const deriveNextReceiveAddress = (userId: string): string => {
+    const session = userSettings.get(userId);
+    if (!session) {
+        throw new AppError('Invalid Session', 'Your wallet session is invalid. Please start over with the !wallet command.', 'INVALID_SESSION');
+    }
+    const hd = requireHd(session);
+    const account = getActiveAccount(hd);
+    if (account.receiveCount >= MAX_ADDRESSES_PER_CHAIN) {
+        throw new AppError('Address limit reached', `Account ${account.index} already has ${MAX_ADDRESSES_PER_CHAIN} receive addresses.`, 'ADDRESS_LIMIT_REACHED');
+    }
+
+    const address = toAddress(getKeyGenerator(hd, account.index).receiveKey(account.receiveCount), session.network);
+    account.receiveCount += 1;
+    Logger.info(`Derived receive address #${account.receiveCount - 1} on account ${account.index} for user: ${userId}`);
+    return address;
+};
+
+/**
+ * Makes `accountIndex` the active account, opening it if needed. The primary
+ * address and key move to the account's first receive key.
+ */
+export const switchAccount = (userId: string, accountIndex: number): string => {
+    const session = userSettings.get(userId);
+    if (!session) {
+        throw new AppError('Invalid Session', 'Your wallet session is invalid. Please start over with the !wallet command.', 'INVALID_SESSION');
+    }
+    const hd = requireHd(session);
+
+    if (!hd.accounts.some(account => account.index === accountIndex)) {
+        hd.accounts.push({ index: accountIndex, receiveCount: 1, changeCount: 1 });
+    }
+    hd.activeAccount = accountIndex;
+
+    const primaryKey = getKeyGenerator(hd, accountIndex).receiveKey(0);
+    session.privateKey = primaryKey.toString();
+    session.address = toAddress(primaryKey, session.network);
+    Logger.info(`User ${userId} switched to account ${accountIndex}`);
+    return session.address;
+};
@@ -1,8 +1,9 @@
-import { PrivateKey, Address, NetworkType } from '../../wasm/kaspa/kaspa';
+import { PrivateKey, Address, NetworkType, Mnemonic, XPrv } from '../../wasm/kaspa/kaspa';
 import { userSettings, Network } from './userSettings';
 import { retryableRequest, handleNetworkError } from './networkUtils';
 import { Logger } from './logger';
 import { AppError } from './errorHandler';
+import { createHdWalletState } from './hdWallet';
 
 const getNetworkType = (network: Network): NetworkType => {
     switch (network) {
@@ -37,4 +38,56 @@ export async function importWalletFromPrivateKey(privateKeyString: string, userI
     } catch (error) {
         throw handleNetworkError(error, 'importing wallet from private key');
     }
-}
\ No newline at end of file
+}
+
+// BIP44 coin type 111111 is Kaspa's; Kaspium, KDX and kaspa-ng all derive from here
+export const KASPA_DERIVATION_PATH = "m/44'/111111'";
+
+export interface DerivedWallet {
+    address: string;
+    privateKey: string;
+    derivationPath: string;
+    xprv: string;
+    accountIndex: number;
+    addressIndex: number;
+}
+
+export const getDerivationPath = (accountIndex: number, addressIndex: number): string =>
+    `${KASPA_DERIVATION_PATH}/${accountIndex}'/0/${addressIndex}`;
+
+/**
+ * Derives the receive key at `m/44'/111111'/<account>'/0/<index>` from a BIP39
+ * phrase and optional passphrase. Does not touch the user's session, so the
+ * caller can show the address for confirmation first.
+ */
+export function deriveWalletFromMnemonic(phrase: string, passphrase: string | undefined, accountIndex: number, addressIndex: number, network: Network): DerivedWallet {
+    if (!Mnemonic.validate(phrase)) {
+        throw new AppError('Invalid Seed Phrase', 'The seed phrase you entered is not a valid BIP39 mnemonic. Please check the words and their order.', 'INVALID_MNEMONIC');
+    }
+
+    const mnemonic = new Mnemonic(phrase);
+    const seed = mnemonic.toSeed(passphrase || undefined);
+    const derivationPath = getDerivationPath(accountIndex, addressIndex);
+    const xprv = new XPrv(seed);
+    const privateKey = xprv.derivePath(derivationPath).toPrivateKey();
+    const address = privateKey.toAddress(getNetworkType(network));
+
+    return {
+        address: address.toString(),
+        privateKey: privateKey.toString(),
+        derivationPath,
+        xprv: xprv.intoString('kprv'),
+        accountIndex,
+        addressIndex
+    };
+}
+
+export function storeDerivedWallet(wallet: DerivedWallet, userId: string, network: Network): void {
+    userSettings.set(userId, {
+        network,
+        privateKey: wallet.privateKey,
+        address: wallet.address,
+        hd: createHdWalletState(wallet.xprv, wallet.accountIndex, wallet.addressIndex),
+        lastActivity: Date.now()
+    });
+}
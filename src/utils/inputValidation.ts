@@ -1,21 +1,73 @@
+import { Address } from '../../wasm/kaspa/kaspa';
 import { AppError } from './errorHandler';
+import { Network } from './userSettings';
+import { getAddressPrefix } from './networkConfig';
 
-export function validateAddress(address: string): boolean {
-    // Updated regex to handle both mainnet and testnet addresses
-    const kaspaAddressRegex = /^(kaspa|kaspatest):[a-zA-Z0-9]{61,63}$/;
-    return kaspaAddressRegex.test(address);
-}
+export const ADDRESS_VERSIONS = ['PubKey', 'PubKeyECDSA', 'ScriptHash'] as const;
+export type AddressVersion = typeof ADDRESS_VERSIONS[number];
+
+// bech32 leaves out 1, b, i and o so they cannot be confused with other characters
+const ADDRESS_CHARSET = /^[qpzry9x8gf2tvdw0s3jn54khce6mua7l]+$/;
+const PREFIX_NETWORKS: Record<string, string> = {
+    kaspa: 'a mainnet',
+    kaspatest: 'a testnet',
+    kaspasim: 'a simnet',
+    kaspadev: 'a devnet'
+};
+
+const invalidAddress = (reason: string) =>
+    new AppError('Invalid Address', `That is not a valid Kaspa address: ${reason}`, 'INVALID_ADDRESS');
+
+/**
+ * Parses `address` with the WASM Address parser, which checks the bech32
+ * checksum and the payload length for the address version. With a network,
+ * the prefix must belong to it too. Throws an AppError saying exactly what
+ * is wrong; returns the address version.
+ */
+export function validateAddress(address: string, network?: Network): AddressVersion {
+    const [prefix, payload, ...rest] = address.split(':');
+    if (!payload || rest.length > 0) {
+        throw invalidAddress('it must start with "kaspa:" on Mainnet or "kaspatest:" on the testnets.');
+    }
+    if (!PREFIX_NETWORKS[prefix]) {
+        throw invalidAddress(`"${prefix}:" is not a Kaspa network prefix.`);
+    }
+    if (!ADDRESS_CHARSET.test(payload)) {
+        throw invalidAddress('it contains characters that never appear in Kaspa addresses (uppercase letters, 1, b, i or o).');
+    }
+
+    let version: string;
+    try {
+        version = new Address(address).version;
+    } catch (error) {
+        const message = String(error);
+        if (/checksum/i.test(message)) {
+            throw invalidAddress('the checksum does not match, so it was probably mistyped or copied incompletely.');
+        }
+        if (/version/i.test(message)) {
+            throw invalidAddress('it uses an unknown address version.');
+        }
+        throw invalidAddress('its length does not match any address type, so it was probably copied incompletely.');
+    }
+    if (!(ADDRESS_VERSIONS as readonly string[]).includes(version)) {
+        throw invalidAddress(`${version} addresses are not supported.`);
+    }
 
-export function validateAmount(amount: string): number {
-    const parsedAmount = parseFloat(amount);
-    if (isNaN(parsedAmount) || parsedAmount <= 0 || !Number.isFinite(parsedAmount)) {
-        throw new AppError('Invalid amount', 'Please enter a valid positive number for the amount.', 'INVALID_AMOUNT');
+    if (network) {
+        validateAddressNetwork(prefix, network);
     }
-    // Check for more than 8 decimal places
-    if (amount.includes('.') && amount.split('.')[1].length > 8) {
-        throw new AppError('Invalid amount', 'Kaspa only supports up to 8 decimal places.', 'INVALID_AMOUNT_PRECISION');
+    return version as AddressVersion;
+}
+
+function validateAddressNetwork(prefix: string, network: Network): void {
+    const expectedPrefix = getAddressPrefix(network);
+    if (prefix !== expectedPrefix) {
+        throw new AppError(
+            'Address network mismatch',
+            `This is ${PREFIX_NETWORKS[prefix]} address but you're on ${network}. Addresses on ${network} start with "${expectedPrefix}:".`,
+            'ADDRESS_NETWORK_MISMATCH'
+        );
     }
-    return parsedAmount;
 }
 
 export function sanitizeInput(input: string): string {
@@ -29,6 +81,15 @@ export function validatePrivateKey(privateKey: string): boolean {
     return privateKey.length === 64 && /^[0-9a-fA-F]+$/.test(privateKey);
 }
 
+export function normalizeMnemonic(phrase: string): string {
+    return phrase.trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+export function validateMnemonicFormat(phrase: string): boolean {
+    const words = normalizeMnemonic(phrase).split(' ');
+    return (words.length === 12 || words.length === 24) && words.every(word => /^[a-z]+$/.test(word));
+}
+
 export function validateNetwork(network: string): boolean {
     const validNetworks = ['Mainnet', 'Testnet-10', 'Testnet-11'];
     return validNetworks.includes(network);
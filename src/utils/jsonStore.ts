@@ -0,0 +1,57 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Logger } from './logger';
+import { AppError } from './errorHandler';
+
+export interface JsonStore<T> {
+    read(): Promise<T>;
+    update<R>(mutate: (data: T) => R | Promise<R>): Promise<R>;
+}
+
+/**
+ * Small JSON file store for bot state that must survive restarts. Reads are
+ * cached, updates are serialized, and every write goes to a temporary file
+ * first so a crash never leaves a half-written file behind.
+ */
+export function createJsonStore<T>(filePath: string, name: string, createEmpty: () => T): JsonStore<T> {
+    let cache: T | null = null;
+    let queue: Promise<unknown> = Promise.resolve();
+
+    const read = async (): Promise<T> => {
+        if (cache) {
+            return cache;
+        }
+        try {
+            cache = JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                Logger.error(`Failed to read ${name}: ${error}`);
+                throw new AppError('Storage Unavailable', `The ${name} could not be read. Please contact support.`, 'STORAGE_READ_FAILED');
+            }
+            cache = createEmpty();
+        }
+        return cache;
+    };
+
+    const write = async (data: T): Promise<void> => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        const tempPath = `${filePath}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+        await fs.rename(tempPath, filePath);
+        cache = data;
+    };
+
+    const update = <R>(mutate: (data: T) => R | Promise<R>): Promise<R> => {
+        const run = queue.then(async () => {
+            const data = await read();
+            const result = await mutate(data);
+            await write(data);
+            return result;
+        });
+        // Keep the queue alive after a failed update
+        queue = run.catch(() => undefined);
+        return run;
+    };
+
+    return { read, update };
+}
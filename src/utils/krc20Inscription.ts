@@ -0,0 +1,292 @@
+import { ScriptBuilder, Opcodes, PrivateKey, PublicKey, RpcClient, addressFromScriptPublicKey, createTransactions } from "../../wasm/kaspa/kaspa";
+import { Network } from './userSettings';
+import { getRpcClient } from './rpcConnection';
+import { addPendingInscription, markRevealAttempt, removePendingInscription, PendingInscription } from './pendingInscriptions';
+import { getExplorerTxUrl } from './networkConfig';
+import { PaymentOutput } from './sendKaspa';
+import { parseTokenAmount, KAS_DECIMALS } from './amount';
+import { describeSubmitRejection } from './transactionTracker';
+import { Logger } from './logger';
+import { AppError } from './errorHandler';
+
+// Defaults in KAS; both can be overridden per deployment through the environment
+export const COMMIT_AMOUNT = process.env.KRC20_COMMIT_AMOUNT || "0.3"; // locked in the P2SH address until the reveal spends it
+export const INSCRIPTION_FEE = process.env.KRC20_INSCRIPTION_FEE || "0.5"; // priority fee paid by each of the commit and reveal transactions
+
+const UTXO_POLL_INTERVAL = 1000;
+const COMMIT_POLL_TIMEOUT = 30000;
+const CONFIRMATION_TIMEOUT = 30000;
+const REVEAL_ATTEMPTS = 3;
+// A commit missing for this long was either never accepted or already revealed
+const STALE_COMMIT_AGE = 10 * 60 * 1000;
+
+export type KRC20Payload = { p: 'krc-20'; op: string } & Record<string, string>;
+
+/** All amounts in sompi. */
+export interface InscriptionFees {
+    commitAmount: bigint;
+    commitFee: bigint;
+    revealFee: bigint;
+}
+
+export interface InscriptionOptions extends Partial<InscriptionFees> {
+    /** Extra priority fee, added to both the commit and the reveal. */
+    priorityFee?: bigint;
+    /** Output the reveal must create, e.g. the order P2SH of a `list`. Otherwise everything returns to the sender. */
+    revealOutput?: PaymentOutput;
+    /** Wait for the reveal to show up in the sender's UTXO set before returning. Defaults to true. */
+    waitForConfirmation?: boolean;
+}
+
+export interface InscriptionResult {
+    commitTxId: string;
+    revealTxId: string;
+    explorerUrl: string;
+    confirmed: boolean;
+}
+
+export type RecoveryOutcome =
+    | { status: 'revealed'; revealTxId: string }
+    | { status: 'not_found' }
+    | { status: 'waiting' };
+
+export interface UtxoEntry {
+    outpoint: { transactionId: string; index: number };
+    amount: bigint;
+}
+
+export const kasToSompi = (kas: string): bigint => parseTokenAmount(kas, KAS_DECIMALS);
+
+export function resolveInscriptionFees(options: InscriptionOptions = {}): InscriptionFees {
+    const priorityFee = options.priorityFee ?? 0n;
+    return {
+        commitAmount: options.commitAmount ?? kasToSompi(COMMIT_AMOUNT),
+        commitFee: (options.commitFee ?? kasToSompi(INSCRIPTION_FEE)) + priorityFee,
+        revealFee: (options.revealFee ?? kasToSompi(INSCRIPTION_FEE)) + priorityFee
+    };
+}
+
+/**
+ * What an inscription costs: `fees` is spent for good, `locked` is only held
+ * by the commit until the reveal returns it.
+ */
+export function estimateInscriptionCost(options: InscriptionOptions = {}): { fees: bigint; locked: bigint } {
+    const fees = resolveInscriptionFees(options);
+    return { fees: fees.commitFee + fees.revealFee, locked: fees.commitAmount };
+}
+
+export const buildInscriptionScript = (publicKey: PublicKey, payload: string) =>
+    new ScriptBuilder()
+        .addData(publicKey.toXOnlyPublicKey().toString())
+        .addOp(Opcodes.OpCheckSig)
+        .addOp(Opcodes.OpFalse)
+        .addOp(Opcodes.OpIf)
+        .addData(Buffer.from("kasplex"))
+        .addI64(0n)
+        .addData(Buffer.from(payload))
+        .addOp(Opcodes.OpEndIf);
+
+export const getScriptAddress = (script: ScriptBuilder, network: Network): string =>
+    addressFromScriptPublicKey(script.createPayToScriptHashScript(), network)!.toString();
+
+export const findUtxo = async (rpc: RpcClient, address: string, txId: string): Promise<UtxoEntry | undefined> => {
+    const { entries } = await rpc.getUtxosByAddresses({ addresses: [address] });
+    return (entries as UtxoEntry[] | undefined)?.find(entry => entry.outpoint.transactionId === txId);
+};
+
+/**
+ * Polls until an output of `txId` shows up in the address's UTXO set, instead
+ * of guessing how long acceptance takes.
+ */
+export const waitForUtxo = async (rpc: RpcClient, address: string, txId: string, timeout: number): Promise<UtxoEntry | undefined> => {
+    const deadline = Date.now() + timeout;
+    while (Date.now() < deadline) {
+        const entry = await findUtxo(rpc, address, txId);
+        if (entry) {
+            return entry;
+        }
+        await new Promise(resolve => setTimeout(resolve, UTXO_POLL_INTERVAL));
+    }
+    return undefined;
+};
+
+/**
+ * Spends a P2SH output whose redeem script is `script`, signing it with the
+ * key in the script. Any other inputs needed for the fee come from the sender.
+ */
+export const spendScriptUtxo = async (rpc: RpcClient, network: Network, senderAddress: string, script: ScriptBuilder, utxo: UtxoEntry, privateKey: PrivateKey, fee: bigint, outputs: PaymentOutput[] = []): Promise<string> => {
+    const { entries } = await rpc.getUtxosByAddresses({ addresses: [senderAddress] });
+    const { transactions } = await createTransactions({
+        priorityEntries: [utxo],
+        entries,
+        outputs,
+        changeAddress: senderAddress,
+        priorityFee: fee,
+        networkId: network
+    });
+
+    let txId = '';
+    for (const transaction of transactions) {
+        transaction.sign([privateKey], false);
+        Logger.debug(`P2SH spend signed with ID: ${transaction.id}`);
+        const ourOutput = transaction.transaction.inputs.findIndex((input: { signatureScript: string }) => input.signatureScript === '');
+
+        if (ourOutput !== -1) {
+            const signature = await transaction.createInputSignature(ourOutput, privateKey);
+            transaction.fillInput(ourOutput, script.encodePayToScriptHashSignatureScript(signature));
+        }
+
+        txId = await transaction.submit(rpc);
+        Logger.info(`Submitted P2SH spend: ${txId}`);
+    }
+    return txId;
+};
+
+const revealCommit = (rpc: RpcClient, pending: PendingInscription, script: ScriptBuilder, commitEntry: UtxoEntry, privateKey: PrivateKey, revealFee: bigint = BigInt(pending.revealFee)): Promise<string> => {
+    const outputs = pending.revealOutputAddress
+        ? [{ address: pending.revealOutputAddress, amount: BigInt(pending.revealOutputAmount ?? 0) }]
+        : [];
+    return spendScriptUtxo(rpc, pending.network, pending.senderAddress, script, commitEntry, privateKey, revealFee, outputs);
+};
+
+/**
+ * Reveals a recorded commit, retrying a few times. The pending record is only
+ * removed once a reveal has been submitted.
+ */
+const completeReveal = async (rpc: RpcClient, pending: PendingInscription, script: ScriptBuilder, privateKey: PrivateKey): Promise<string> => {
+    for (let attempt = 1; attempt <= REVEAL_ATTEMPTS; attempt++) {
+        try {
+            const commitEntry = await waitForUtxo(rpc, pending.p2shAddress, pending.commitTxId, COMMIT_POLL_TIMEOUT);
+            if (!commitEntry) {
+                throw new Error(`Commit output ${pending.commitTxId} not found after ${COMMIT_POLL_TIMEOUT / 1000}s`);
+            }
+
+            const revealHash = await revealCommit(rpc, pending, script, commitEntry, privateKey);
+            await removePendingInscription(pending.commitTxId);
+            return revealHash;
+        } catch (revealError) {
+            Logger.error(`Reveal attempt ${attempt}/${REVEAL_ATTEMPTS} for commit ${pending.commitTxId} failed: ${revealError}`);
+            await markRevealAttempt(pending.commitTxId, String(revealError));
+        }
+    }
+
+    throw new AppError(
+        'Reveal Failed',
+        `The commit transaction was submitted but its reveal failed. The KAS it locked is tracked; use /recover to reclaim it.`,
+        'REVEAL_FAILED'
+    );
+};
+
+/**
+ * Submits any KRC-20 operation as a commit/reveal pair: the commit pays into a
+ * P2SH address whose redeem script embeds the JSON payload, and the reveal
+ * spends it back to the sender, which is what the Kasplex indexer picks up.
+ * Operations with a protocol fee (deploy) pass it as `revealFee`.
+ *
+ * The commit is recorded before it is submitted so it can be recovered if the
+ * reveal fails or the bot restarts.
+ */
+export const submitInscription = async (userId: string, network: Network, data: KRC20Payload, privateKeyString: string, options: InscriptionOptions = {}): Promise<InscriptionResult> => {
+    const fees = resolveInscriptionFees(options);
+    const RPC = await getRpcClient(userId, network);
+    const privateKey = new PrivateKey(privateKeyString);
+    const publicKey = privateKey.toPublicKey();
+    const address = publicKey.toAddress(network);
+
+    Logger.info(`Submitting KRC-20 ${data.op} inscription for address: ${address.toString()}`);
+
+    const payload = JSON.stringify(data, null, 0);
+    const script = buildInscriptionScript(publicKey, payload);
+    const P2SHAddress = getScriptAddress(script, network);
+    Logger.debug(`P2SH Address: ${P2SHAddress}`);
+
+    const { entries } = await RPC.getUtxosByAddresses({ addresses: [address.toString()] });
+    const { transactions, summary } = await createTransactions({
+        priorityEntries: [],
+        entries,
+        outputs: [{ address: P2SHAddress, amount: fees.commitAmount }],
+        changeAddress: address.toString(),
+        priorityFee: fees.commitFee,
+        networkId: network
+    });
+
+    const pending: PendingInscription = {
+        commitTxId: summary.finalTransactionId,
+        userId,
+        network,
+        senderAddress: address.toString(),
+        p2shAddress: P2SHAddress,
+        payload,
+        revealFee: fees.revealFee.toString(),
+        revealOutputAddress: options.revealOutput?.address,
+        revealOutputAmount: options.revealOutput?.amount.toString(),
+        createdAt: Date.now(),
+        attempts: 0
+    };
+    await addPendingInscription(pending);
+
+    try {
+        for (const transaction of transactions) {
+            transaction.sign([privateKey]);
+            Logger.debug(`Main: Transaction signed with ID: ${transaction.id}`);
+            const commitHash = await transaction.submit(RPC);
+            Logger.info(`Submitted commit transaction: ${commitHash}`);
+        }
+    } catch (commitError) {
+        // Nothing was locked, so there is nothing to recover
+        await removePendingInscription(pending.commitTxId);
+        throw describeSubmitRejection(commitError) ?? commitError;
+    }
+
+    const revealTxId = await completeReveal(RPC, pending, script, privateKey);
+
+    // Any output of the reveal appearing in the UTXO set means it was accepted
+    const confirmationAddress = options.revealOutput?.address ?? pending.senderAddress;
+    const confirmed = options.waitForConfirmation === false
+        ? false
+        : Boolean(await waitForUtxo(RPC, confirmationAddress, revealTxId, CONFIRMATION_TIMEOUT));
+    if (!confirmed) {
+        Logger.warn(`Reveal ${revealTxId} was not confirmed within ${CONFIRMATION_TIMEOUT / 1000}s`);
+    }
+
+    return {
+        commitTxId: pending.commitTxId,
+        revealTxId,
+        explorerUrl: getExplorerTxUrl(network, revealTxId),
+        confirmed
+    };
+};
+
+/**
+ * Reclaims a recorded commit by revealing it with the user's key, paying
+ * `revealFee` (by default the fee recorded with the commit). Commits whose
+ * output no longer exists are dropped once they are old enough that they
+ * cannot still be waiting for acceptance.
+ */
+export const recoverInscription = async (pending: PendingInscription, privateKeyString: string, revealFee: bigint = BigInt(pending.revealFee)): Promise<RecoveryOutcome> => {
+    const privateKey = new PrivateKey(privateKeyString);
+    const script = buildInscriptionScript(privateKey.toPublicKey(), pending.payload);
+    if (getScriptAddress(script, pending.network) !== pending.p2shAddress) {
+        throw new AppError('Key mismatch', `This commit was made by ${pending.senderAddress}, which is not the wallet open in your session.`, 'RECOVERY_KEY_MISMATCH');
+    }
+
+    const rpc = await getRpcClient(pending.userId, pending.network);
+    const commitEntry = await findUtxo(rpc, pending.p2shAddress, pending.commitTxId);
+    if (!commitEntry) {
+        if (Date.now() - pending.createdAt < STALE_COMMIT_AGE) {
+            return { status: 'waiting' };
+        }
+        Logger.info(`Dropping pending commit ${pending.commitTxId}: output no longer exists`);
+        await removePendingInscription(pending.commitTxId);
+        return { status: 'not_found' };
+    }
+
+    try {
+        const revealTxId = await revealCommit(rpc, pending, script, commitEntry, privateKey, revealFee);
+        await removePendingInscription(pending.commitTxId);
+        return { status: 'revealed', revealTxId };
+    } catch (error) {
+        await markRevealAttempt(pending.commitTxId, String(error));
+        throw error;
+    }
+};
@@ -0,0 +1,214 @@
+import axios from 'axios';
+import {
+    PrivateKey, Transaction, TransactionInput, TransactionOutput, SighashType,
+    createInputSignature, calculateTransactionFee, payToAddressScript
+} from "../../wasm/kaspa/kaspa";
+import { Network } from './userSettings';
+import { getRpcClient } from './rpcConnection';
+import {
+    submitInscription, buildInscriptionScript, getScriptAddress, findUtxo, waitForUtxo, spendScriptUtxo,
+    estimateInscriptionCost, kasToSompi, COMMIT_AMOUNT, INSCRIPTION_FEE, UtxoEntry
+} from './krc20Inscription';
+import { addOffer, removeOffer, createOfferId, MarketOffer } from './marketOffers';
+import { withSpendingLimit, Spend } from './spendingLimits';
+import { getApiBaseUrl, getExplorerTxUrl } from './networkConfig';
+import { Logger } from './logger';
+import { AppError } from './errorHandler';
+
+const ORDER_TIMEOUT = 60000;
+const SUBNETWORK_ID_NATIVE = '0000000000000000000000000000000000000000';
+
+const buildSendScript = (privateKey: PrivateKey, ticker: string) =>
+    buildInscriptionScript(privateKey.toPublicKey(), JSON.stringify({ p: 'krc-20', op: 'send', tick: ticker }));
+
+const toInput = (utxo: UtxoEntry) => new TransactionInput({
+    previousOutpoint: utxo.outpoint,
+    signatureScript: '',
+    sequence: 0n,
+    sigOpCount: 1,
+    utxo
+});
+
+/**
+ * The seller's half of the sale: spends the order UTXO and pays the seller
+ * the price plus the KAS held by the order. Signing with SingleAnyOneCanPay
+ * commits only to input 0 and output 0, so the buyer can add the rest.
+ */
+const createSellerTransaction = (orderUtxo: UtxoEntry, sendScript: ReturnType<typeof buildSendScript>, sellerAddress: string, price: bigint, privateKey: PrivateKey, network: Network): string => {
+    const transaction = new Transaction({
+        version: 0,
+        inputs: [toInput(orderUtxo)],
+        outputs: [new TransactionOutput(price + BigInt(orderUtxo.amount), payToAddressScript(sellerAddress))],
+        lockTime: 0n,
+        subnetworkId: SUBNETWORK_ID_NATIVE,
+        gas: 0n,
+        payload: ''
+    });
+
+    const signature = createInputSignature(transaction, 0, privateKey, SighashType.SingleAnyOneCanPay);
+    transaction.inputs[0].signatureScript = sendScript.encodePayToScriptHashSignatureScript(signature);
+    Logger.debug(`Created seller transaction for order ${orderUtxo.outpoint.transactionId} on ${network}`);
+    return transaction.serializeToSafeJSON();
+};
+
+/**
+ * Only buy orders the Kasplex indexer has accepted; a rejected `list` leaves
+ * an order UTXO that holds no tokens.
+ */
+const isOrderIndexed = async (offer: MarketOffer): Promise<boolean> => {
+    try {
+        const response = await axios.get(`${getApiBaseUrl(offer.network)}/market/${offer.ticker}`, { params: { txid: offer.orderTxId } });
+        const orders: { uTxid: string }[] = response.data.result || [];
+        return orders.some(order => order.uTxid === offer.orderTxId);
+    } catch (error) {
+        Logger.error(`Failed to verify market order ${offer.id}: ${error}`);
+        throw new AppError('Market Unavailable', 'Could not verify this offer with the KRC20 indexer. Please try again later.', 'MARKET_UNAVAILABLE');
+    }
+};
+
+/**
+ * Lists `amount` of `ticker` for `price` sompi: inscribes a `list` whose
+ * reveal moves the tokens into a `send` order address, then stores the
+ * seller-signed transaction as an offer.
+ */
+export async function createListing(userId: string, network: Network, ticker: string, amount: bigint, decimals: number, price: bigint, privateKeyString: string): Promise<MarketOffer> {
+    const privateKey = new PrivateKey(privateKeyString);
+    const sellerAddress = privateKey.toPublicKey().toAddress(network).toString();
+    const sendScript = buildSendScript(privateKey, ticker);
+    const orderAddress = getScriptAddress(sendScript, network);
+
+    Logger.info(`Listing ${amount} ${ticker} for ${price} sompi for user: ${userId}`);
+    const spend: Spend = { kind: 'listing', amount: estimateInscriptionCost().fees, destinations: [] };
+    const result = await withSpendingLimit(userId, spend, () =>
+        submitInscription(userId, network, { "p": "krc-20", "op": "list", "tick": ticker, "amt": amount.toString() }, privateKeyString, {
+            revealOutput: { address: orderAddress, amount: kasToSompi(COMMIT_AMOUNT) }
+        }));
+
+    const rpc = await getRpcClient(userId, network);
+    const orderUtxo = await waitForUtxo(rpc, orderAddress, result.revealTxId, ORDER_TIMEOUT);
+    if (!orderUtxo) {
+        throw new AppError('Listing not confirmed', `Your list inscription was submitted (${result.explorerUrl}) but did not confirm in time. Please contact support before listing again.`, 'LISTING_NOT_CONFIRMED');
+    }
+
+    const offer: MarketOffer = {
+        id: createOfferId(),
+        network,
+        ticker,
+        amount: amount.toString(),
+        decimals,
+        price: price.toString(),
+        sellerId: userId,
+        sellerAddress,
+        orderAddress,
+        orderTxId: result.revealTxId,
+        pskt: createSellerTransaction(orderUtxo, sendScript, sellerAddress, price, privateKey, network),
+        createdAt: Date.now()
+    };
+    await addOffer(offer);
+    return offer;
+}
+
+/**
+ * Completes an offer with the buyer's wallet: adds their inputs to pay the
+ * price and fee, and one output that receives the change and, as the output
+ * following the seller's payment, the tokens.
+ */
+export async function completePurchase(offer: MarketOffer, buyerId: string, privateKeyString: string): Promise<{ txId: string; explorerUrl: string }> {
+    const buyerKey = new PrivateKey(privateKeyString);
+    const buyerAddress = buyerKey.toPublicKey().toAddress(offer.network).toString();
+    if (buyerAddress === offer.sellerAddress) {
+        throw new AppError('Own offer', 'You cannot buy your own offer. Use `/market cancel` to take it down.', 'OWN_OFFER');
+    }
+
+    const rpc = await getRpcClient(buyerId, offer.network);
+    if (!await findUtxo(rpc, offer.orderAddress, offer.orderTxId)) {
+        await removeOffer(offer.id);
+        throw new AppError('Offer unavailable', 'This offer has already been sold or cancelled.', 'OFFER_UNAVAILABLE');
+    }
+    if (!await isOrderIndexed(offer)) {
+        throw new AppError('Offer not indexed', 'This offer is not recognised by the KRC20 indexer yet, so buying it is not safe. Please try again later.', 'OFFER_NOT_INDEXED');
+    }
+
+    const transaction = Transaction.deserializeFromSafeJSON(offer.pskt);
+    const price = BigInt(offer.price);
+    // Budget for the fee while selecting inputs; the exact fee is calculated below
+    const required = price + kasToSompi(INSCRIPTION_FEE);
+
+    const { entries } = await rpc.getUtxosByAddresses({ addresses: [buyerAddress] });
+    const selected: UtxoEntry[] = [];
+    let total = 0n;
+    for (const entry of [...(entries as UtxoEntry[])].sort((a, b) => Number(BigInt(b.amount) - BigInt(a.amount)))) {
+        if (total >= required) {
+            break;
+        }
+        selected.push(entry);
+        total += BigInt(entry.amount);
+    }
+    if (total < required) {
+        throw new AppError('Insufficient funds', 'Your wallet does not have enough KAS to pay for this offer and the network fee.', 'INSUFFICIENT_FUNDS');
+    }
+
+    transaction.inputs = [...transaction.inputs, ...selected.map(toInput)];
+    const buyerOutput = new TransactionOutput(total - price, payToAddressScript(buyerAddress));
+    transaction.outputs = [...transaction.outputs, buyerOutput];
+
+    // Input 0 keeps the seller's signature; the buyer signs everything else
+    const signBuyerInputs = () => {
+        for (let index = 1; index < transaction.inputs.length; index++) {
+            transaction.inputs[index].signatureScript = createInputSignature(transaction, index, buyerKey, SighashType.All);
+        }
+    };
+
+    // The fee depends on the mass of the signed transaction, and the change
+    // amount feeds back into the storage mass, so sign until the fee settles
+    let fee = 0n;
+    let settled = false;
+    for (let attempt = 0; attempt < 3 && !settled; attempt++) {
+        buyerOutput.value = total - price - fee;
+        transaction.outputs = [...transaction.outputs.slice(0, 1), buyerOutput];
+        signBuyerInputs();
+
+        const signedFee = calculateTransactionFee(offer.network, transaction);
+        if (signedFee === undefined || total - price - BigInt(signedFee) <= 0n) {
+            throw new AppError('Transaction too large', 'This purchase could not be built within the network limits. Please consolidate your wallet and try again.', 'TRANSACTION_TOO_LARGE');
+        }
+        settled = BigInt(signedFee) <= fee;
+        fee = settled ? fee : BigInt(signedFee);
+    }
+    if (!settled) {
+        throw new AppError('Fee calculation failed', 'The network fee for this purchase could not be settled. Please try again.', 'FEE_CALCULATION_FAILED');
+    }
+
+    const spend: Spend = { kind: 'purchase', amount: price + fee, destinations: [offer.sellerAddress] };
+    const { transactionId } = await withSpendingLimit<{ transactionId: string }>(buyerId, spend, () => rpc.submitTransaction({ transaction, allowOrphan: false }));
+    Logger.info(`Offer ${offer.id} bought by ${buyerId} in ${transactionId}`);
+    await removeOffer(offer.id);
+    return { txId: transactionId, explorerUrl: getExplorerTxUrl(offer.network, transactionId) };
+}
+
+/**
+ * Spends the order back to the seller, which Kasplex treats as cancelling the
+ * listing and returns the tokens.
+ */
+export async function cancelListing(offer: MarketOffer, privateKeyString: string): Promise<string | null> {
+    const privateKey = new PrivateKey(privateKeyString);
+    const sendScript = buildSendScript(privateKey, offer.ticker);
+    if (getScriptAddress(sendScript, offer.network) !== offer.orderAddress) {
+        throw new AppError('Key mismatch', `This offer was listed from ${offer.sellerAddress}, which is not the wallet open in your session.`, 'OFFER_KEY_MISMATCH');
+    }
+
+    const rpc = await getRpcClient(offer.sellerId, offer.network);
+    const orderUtxo = await findUtxo(rpc, offer.orderAddress, offer.orderTxId);
+    if (!orderUtxo) {
+        // Already sold or cancelled elsewhere
+        await removeOffer(offer.id);
+        return null;
+    }
+
+    const fee = kasToSompi(INSCRIPTION_FEE);
+    const spend: Spend = { kind: 'cancellation', amount: fee, destinations: [] };
+    const txId = await withSpendingLimit(offer.sellerId, spend, () =>
+        spendScriptUtxo(rpc, offer.network, offer.sellerAddress, sendScript, orderUtxo, privateKey, fee));
+    await removeOffer(offer.id);
+    return txId;
+}
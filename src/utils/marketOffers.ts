@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+import path from 'path';
+import { Network } from './userSettings';
+import { createJsonStore } from './jsonStore';
+
+const MARKET_OFFERS_PATH = process.env.MARKET_OFFERS_PATH || path.join('data', 'market_offers.json');
+
+/**
+ * A KRC-20 sell order. The tokens sit in `orderAddress` (the P2SH of a `send`
+ * script) and `pskt` is the seller's half of the sale, signed so that any
+ * buyer can add inputs and outputs as long as output 0 still pays the seller.
+ */
+export interface MarketOffer {
+    id: string;
+    network: Network;
+    ticker: string;
+    amount: string; // token's smallest unit
+    decimals: number;
+    price: string; // sompi
+    sellerId: string;
+    sellerAddress: string;
+    orderAddress: string;
+    orderTxId: string;
+    pskt: string;
+    createdAt: number;
+}
+
+type MarketOfferFile = Record<string, MarketOffer>;
+
+const store = createJsonStore<MarketOfferFile>(MARKET_OFFERS_PATH, 'market offer book', () => ({}));
+
+export const createOfferId = (): string => crypto.randomBytes(4).toString('hex');
+
+export async function addOffer(offer: MarketOffer): Promise<void> {
+    await store.update(data => {
+        data[offer.id] = offer;
+    });
+}
+
+export async function removeOffer(id: string): Promise<void> {
+    await store.update(data => {
+        delete data[id];
+    });
+}
+
+export async function getOffer(id: string): Promise<MarketOffer | undefined> {
+    return (await store.read())[id.toLowerCase()];
+}
+
+export async function listOffers(network: Network, ticker?: string): Promise<MarketOffer[]> {
+    return Object.values(await store.read())
+        .filter(offer => offer.network === network && (!ticker || offer.ticker === ticker.toUpperCase()))
+        .sort((a, b) => b.createdAt - a.createdAt);
+}
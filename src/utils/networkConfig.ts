@@ -0,0 +1,92 @@
+import { Network } from './userSettings';
+import { AppError } from './errorHandler';
+
+const NETWORK_ARGUMENTS: Record<string, Network> = {
+    MAIN: 'Mainnet',
+    MAINNET: 'Mainnet',
+    TN10: 'Testnet-10',
+    'TESTNET-10': 'Testnet-10',
+    TN11: 'Testnet-11',
+    'TESTNET-11': 'Testnet-11',
+};
+
+export const NETWORK_CHOICES = [
+    { name: 'Mainnet', value: 'MAIN' },
+    { name: 'Testnet-10', value: 'TN10' },
+    { name: 'Testnet-11', value: 'TN11' },
+];
+
+/**
+ * Resolves the short network names used in commands (MAIN/TN10/TN11) to a
+ * Network. A missing argument defaults to Mainnet.
+ */
+export function parseNetworkArgument(arg?: string): Network {
+    if (!arg) {
+        return 'Mainnet';
+    }
+
+    const network = NETWORK_ARGUMENTS[arg.trim().toUpperCase()];
+    if (!network) {
+        throw new AppError('Invalid network', `Unknown network "${arg}". Use MAIN, TN10 or TN11.`, 'INVALID_NETWORK');
+    }
+    return network;
+}
+
+export function getEnvNetworkName(network: Network): string {
+    return network.replace('-', '_').toUpperCase();
+}
+
+export function getApiBaseUrl(network: Network): string {
+    const apiBaseUrl = process.env[`${getEnvNetworkName(network)}_API_BASE_URL`];
+    if (!apiBaseUrl) {
+        throw new AppError('Invalid Configuration', `API base URL not found for ${network}`, 'INVALID_CONFIGURATION');
+    }
+    return apiBaseUrl;
+}
+
+/**
+ * Base URL of the Kaspa REST API (transactions by address etc.), which is a
+ * different service from the Kasplex KRC20 indexer above.
+ */
+export function getKaspaApiBaseUrl(network: Network): string {
+    const configured = process.env[`${getEnvNetworkName(network)}_KASPA_API_BASE_URL`];
+    if (configured) {
+        return configured;
+    }
+
+    switch (network) {
+        case 'Mainnet':
+            return 'https://api.kaspa.org';
+        case 'Testnet-10':
+            return 'https://api-tn10.kaspa.org';
+        case 'Testnet-11':
+            return 'https://api-tn11.kaspa.org';
+        default:
+            throw new AppError('Invalid Network', `Invalid network: ${network}`, 'INVALID_NETWORK');
+    }
+}
+
+export function getExplorerBaseUrl(network: Network): string {
+    switch (network) {
+        case 'Mainnet':
+            return 'https://explorer.kaspa.org';
+        case 'Testnet-10':
+            return 'https://explorer-tn10.kaspa.org';
+        case 'Testnet-11':
+            return 'https://explorer-tn11.kaspa.org';
+        default:
+            throw new AppError('Invalid Network', `Invalid network: ${network}`, 'INVALID_NETWORK');
+    }
+}
+
+export function getExplorerTxUrl(network: Network, txId: string): string {
+    return `${getExplorerBaseUrl(network)}/txs/${txId}`;
+}
+
+export function getExplorerAddressUrl(network: Network, address: string): string {
+    return `${getExplorerBaseUrl(network)}/addresses/${address}`;
+}
+
+export function getAddressPrefix(network: Network): string {
+    return network === 'Mainnet' ? 'kaspa' : 'kaspatest';
+}
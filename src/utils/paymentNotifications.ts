@@ -0,0 +1,164 @@
+import path from 'path';
+import { Client, EmbedBuilder } from 'discord.js';
+import { sompiToKaspaStringWithSuffix } from '../../wasm/kaspa/kaspa';
+import { userSettings, Network } from './userSettings';
+import { getWalletAddresses } from './hdWallet';
+import { getVaultSummary } from './walletVault';
+import { addUtxoEventListener, watchAddresses, unwatchAddresses, isWatching, UtxoTransactionRecord } from './rpcConnection';
+import { addTransactionEventListener } from './sendKaspa';
+import { fetchTransactionSenders } from './transactionHistory';
+import { getExplorerTxUrl } from './networkConfig';
+import { createJsonStore } from './jsonStore';
+import { Logger } from './logger';
+
+const PAYMENT_NOTIFICATIONS_PATH = process.env.PAYMENT_NOTIFICATIONS_PATH || path.join('data', 'payment_notifications.json');
+export const DEFAULT_MIN_NOTIFY_AMOUNT = 100000000n; // 1 KAS
+const SYNC_INTERVAL = 2 * 60 * 1000;
+const RECENT_TX_LIMIT = 1000;
+
+/**
+ * Opt-in for one wallet, keyed by its primary address. Only wallets that are
+ * open in a session or saved in the vault are watched.
+ */
+export interface NotificationSetting {
+    network: Network;
+    minAmount: string; // sompi
+}
+
+type NotificationFile = Record<string, Record<string, NotificationSetting>>;
+
+const store = createJsonStore<NotificationFile>(PAYMENT_NOTIFICATIONS_PATH, 'payment notification settings', () => ({}));
+
+// Transactions the bot itself sent, or already notified about; bounded so they cannot grow forever
+const recentTxIds = new Set<string>();
+const rememberTx = (txId: string) => {
+    recentTxIds.add(txId);
+    if (recentTxIds.size > RECENT_TX_LIMIT) {
+        recentTxIds.delete(recentTxIds.values().next().value!);
+    }
+};
+
+export async function setNotificationSetting(userId: string, address: string, setting: NotificationSetting): Promise<void> {
+    await store.update(data => {
+        data[userId] = { ...data[userId], [address]: setting };
+    });
+}
+
+export async function removeNotificationSetting(userId: string, address: string): Promise<void> {
+    await store.update(data => {
+        delete data[userId]?.[address];
+        if (data[userId] && Object.keys(data[userId]).length === 0) {
+            delete data[userId];
+        }
+    });
+}
+
+export async function getNotificationSettings(userId: string): Promise<Record<string, NotificationSetting>> {
+    return { ...(await store.read())[userId] };
+}
+
+/**
+ * The addresses to watch for one opted-in wallet: every derived address while
+ * it is open, or just the primary address while it only sits in the vault.
+ */
+const getWatchedAddresses = async (userId: string, primaryAddress: string, network: Network): Promise<string[] | undefined> => {
+    const userSession = userSettings.get(userId);
+    if (userSession?.address === primaryAddress && userSession.network === network) {
+        return getWalletAddresses(userSession);
+    }
+    const vault = await getVaultSummary(userId);
+    return vault?.address === primaryAddress && vault.network === network ? [primaryAddress] : undefined;
+};
+
+/**
+ * Brings the watched addresses in line with the stored opt-ins. Safe to call
+ * repeatedly; addresses already tracked are left alone.
+ */
+export async function syncWatchedWallets(userId?: string): Promise<void> {
+    const data = await store.read();
+    const userIds = userId ? [userId] : Object.keys(data);
+
+    for (const id of userIds) {
+        const settings = Object.entries(data[id] ?? {});
+        for (const network of ['Mainnet', 'Testnet-10', 'Testnet-11'] as Network[]) {
+            const addresses: string[] = [];
+            for (const [primaryAddress] of settings.filter(([, entry]) => entry.network === network)) {
+                addresses.push(...(await getWatchedAddresses(id, primaryAddress, network) ?? []));
+            }
+
+            try {
+                if (addresses.length > 0) {
+                    await watchAddresses(id, network, addresses);
+                } else if (isWatching(id, network)) {
+                    await unwatchAddresses(id, network);
+                }
+            } catch (error) {
+                Logger.warn(`Failed to sync payment notifications for ${id} on ${network}: ${error}`);
+            }
+        }
+    }
+}
+
+const getRecordAddress = (record: UtxoTransactionRecord): string | undefined => {
+    const address = record.data?.data?.utxoEntries?.[0]?.address;
+    return address?.toString();
+};
+
+const notifyIncomingPayment = async (client: Client<true>, userId: string, network: Network, record: UtxoTransactionRecord) => {
+    if (record.type !== 'incoming' || recentTxIds.has(record.id)) {
+        return;
+    }
+    rememberTx(record.id);
+
+    const settings = Object.entries(await getNotificationSettings(userId)).filter(([, setting]) => setting.network === network);
+    if (settings.length === 0) {
+        return;
+    }
+    const address = getRecordAddress(record);
+    // Derived addresses are not stored, so anything else on this network belongs to the wallet's own entry or the lowest threshold
+    const [, setting] = settings.find(([primaryAddress]) => primaryAddress === address)
+        ?? settings.reduce((lowest, entry) => BigInt(entry[1].minAmount) < BigInt(lowest[1].minAmount) ? entry : lowest);
+
+    const amount = BigInt(record.value);
+    if (amount < BigInt(setting.minAmount)) {
+        return;
+    }
+
+    const senders = await fetchTransactionSenders(record.id, network).catch(() => []);
+    const embed = new EmbedBuilder()
+        .setColor(0x00FF00)
+        .setTitle('💰 Incoming Payment')
+        .addFields(
+            { name: 'Amount', value: sompiToKaspaStringWithSuffix(amount, userSettings.getNetworkType(network)), inline: true },
+            { name: 'Network', value: network, inline: true },
+            { name: 'From', value: senders.length > 0 ? senders.slice(0, 3).join('\n') : 'Unknown' },
+            { name: 'Transaction', value: getExplorerTxUrl(network, record.id) }
+        )
+        .setTimestamp();
+    if (address) {
+        embed.addFields({ name: 'To', value: address });
+    }
+
+    try {
+        const user = await client.users.fetch(userId);
+        await user.send({ embeds: [embed] });
+    } catch (error) {
+        Logger.warn(`Failed to notify user ${userId} about incoming payment ${record.id}: ${error}`);
+    }
+};
+
+/**
+ * Subscribes to UtxoProcessor events for opted-in wallets and keeps the
+ * watched set up to date as sessions open and close.
+ */
+export const startIncomingPaymentNotifier = (client: Client<true>): void => {
+    addTransactionEventListener((_userId, txId) => rememberTx(txId));
+    addUtxoEventListener((userId, network, record) => {
+        notifyIncomingPayment(client, userId, network, record)
+            .catch(error => Logger.error(`Incoming payment notification failed for ${userId}: ${error}`));
+    });
+
+    const sync = () => syncWatchedWallets().catch(error => Logger.error(`Payment notification sync failed: ${error}`));
+    sync();
+    setInterval(sync, SYNC_INTERVAL);
+};
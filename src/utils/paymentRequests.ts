@@ -0,0 +1,253 @@
+import crypto from 'crypto';
+import path from 'path';
+import QRCode from 'qrcode';
+import { Client, EmbedBuilder } from 'discord.js';
+import { sompiToKaspaString, sompiToKaspaStringWithSuffix } from '../../wasm/kaspa/kaspa';
+import { userSettings, Network } from './userSettings';
+import { getRpcClient } from './rpcConnection';
+import { getExplorerTxUrl } from './networkConfig';
+import { fetchTransactionInputs, fetchTransactionSenders } from './transactionHistory';
+import { createJsonStore } from './jsonStore';
+import { Logger } from './logger';
+
+const PAYMENT_REQUESTS_PATH = process.env.PAYMENT_REQUESTS_PATH || path.join('data', 'payment_requests.json');
+const PAYMENT_REQUEST_TTL = 7 * 24 * 60 * 60 * 1000;
+const WATCH_INTERVAL = 30000;
+const OWN_TX_LIMIT = 1000;
+// One shared connection per network watches every request, so watching outlives wallet sessions
+const WATCHER_CLIENT_ID = 'payment-requests';
+export const MAX_MEMO_LENGTH = 100;
+
+/**
+ * A request to be paid at `address`. It is marked paid by the first UTXO at
+ * the address that is newer than the request, covers `amount` (any amount
+ * when none was asked for) and was not sent by the wallet itself.
+ */
+export interface PaymentRequest {
+    id: string;
+    userId: string;
+    network: Network;
+    address: string;
+    amount?: string; // sompi
+    memo?: string;
+    uri: string;
+    createdDaaScore: string;
+    createdAt: number;
+    paidTxId?: string;
+    paidAmount?: string;
+    paidAt?: number;
+}
+
+interface UtxoWithScore {
+    address?: unknown;
+    outpoint: { transactionId: string; index: number };
+    amount: bigint | string;
+    blockDaaScore: bigint | string;
+}
+
+type PaymentRequestFile = Record<string, PaymentRequest>;
+
+const store = createJsonStore<PaymentRequestFile>(PAYMENT_REQUESTS_PATH, 'payment request log', () => ({}));
+
+/**
+ * Builds a BIP21-style payment URI, e.g. `kaspa:qr...?amount=1.5&message=Lunch`.
+ * The address already carries the `kaspa:` scheme.
+ */
+export function buildPaymentUri(address: string, amount?: bigint, memo?: string): string {
+    const params = new URLSearchParams();
+    if (amount !== undefined) {
+        params.set('amount', sompiToKaspaString(amount));
+    }
+    if (memo) {
+        params.set('message', memo);
+    }
+    const query = params.toString();
+    return query ? `${address}?${query}` : address;
+}
+
+export const createQrCode = (uri: string): Promise<Buffer> =>
+    QRCode.toBuffer(uri, { type: 'png', width: 320, margin: 2, errorCorrectionLevel: 'M' });
+
+export async function createPaymentRequest(userId: string, network: Network, address: string, amount?: bigint, memo?: string): Promise<PaymentRequest> {
+    // Only UTXOs created after this point can pay the request
+    const rpc = await getRpcClient(userId, network);
+    const { virtualDaaScore } = await rpc.getBlockDagInfo();
+
+    const request: PaymentRequest = {
+        id: crypto.randomBytes(4).toString('hex'),
+        userId,
+        network,
+        address,
+        amount: amount?.toString(),
+        memo,
+        uri: buildPaymentUri(address, amount, memo),
+        createdDaaScore: virtualDaaScore.toString(),
+        createdAt: Date.now()
+    };
+    await store.update(data => {
+        data[request.id] = request;
+    });
+    return request;
+}
+
+export async function getPaymentRequests(userId: string): Promise<PaymentRequest[]> {
+    return Object.values(await store.read())
+        .filter(request => request.userId === userId)
+        .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+const findCandidates = (request: PaymentRequest, entries: UtxoWithScore[], claimed: Set<string>): UtxoWithScore[] =>
+    entries.filter(entry => String(entry.address) === request.address
+        && BigInt(entry.blockDaaScore) > BigInt(request.createdDaaScore)
+        && (!request.amount || BigInt(entry.amount) >= BigInt(request.amount))
+        && !claimed.has(entry.outpoint.transactionId));
+
+// Transactions already found to be the wallet's own; bounded so they cannot grow forever
+const ownTxIds = new Set<string>();
+const rememberOwnTx = (txId: string) => {
+    ownTxIds.add(txId);
+    if (ownTxIds.size > OWN_TX_LIMIT) {
+        ownTxIds.delete(ownTxIds.values().next().value!);
+    }
+};
+
+const isScriptAddress = (address: string): boolean => address.split(':')[1]?.startsWith('p') ?? false;
+
+/**
+ * Whether a transaction spends from the request address, either directly
+ * (change) or through a KRC-20 commit it funded (reveal). Undefined until the
+ * REST API has indexed the transaction.
+ */
+const isOwnTransaction = async (request: PaymentRequest, txId: string): Promise<boolean | undefined> => {
+    const inputs = await fetchTransactionInputs(txId, request.network);
+    if (inputs.length === 0) {
+        return undefined;
+    }
+    if (inputs.some(input => input.address === request.address)) {
+        return true;
+    }
+    for (const input of inputs.filter(entry => isScriptAddress(entry.address))) {
+        if ((await fetchTransactionSenders(input.txId, request.network)).includes(request.address)) {
+            return true;
+        }
+    }
+    return false;
+};
+
+const findPayment = async (request: PaymentRequest, entries: UtxoWithScore[], claimed: Set<string>): Promise<UtxoWithScore | undefined> => {
+    for (const entry of findCandidates(request, entries, claimed)) {
+        const txId = entry.outpoint.transactionId;
+        if (ownTxIds.has(txId)) {
+            continue;
+        }
+        const own = await isOwnTransaction(request, txId);
+        if (own) {
+            rememberOwnTx(txId);
+        } else if (own === false) {
+            return entry;
+        }
+    }
+    return undefined;
+};
+
+/**
+ * Marks open requests paid when a matching UTXO has arrived. A transaction
+ * only ever pays one request, so two identical requests need two payments.
+ */
+export async function checkPaymentRequests(): Promise<PaymentRequest[]> {
+    const now = Date.now();
+    const isExpired = (request: PaymentRequest) => now - request.createdAt > PAYMENT_REQUEST_TTL;
+    const all = Object.values(await store.read());
+    if (all.some(isExpired)) {
+        await store.update(data => {
+            all.filter(isExpired).forEach(request => delete data[request.id]);
+        });
+    }
+    const requests = all.filter(request => !isExpired(request));
+
+    const claimed = new Set(requests.flatMap(request => request.paidTxId ? [request.paidTxId] : []));
+    const open = requests.filter(entry => !entry.paidTxId).sort((a, b) => a.createdAt - b.createdAt);
+    const paid: PaymentRequest[] = [];
+
+    for (const network of new Set(open.map(request => request.network))) {
+        const watched = open.filter(request => request.network === network);
+        let entries: UtxoWithScore[];
+        try {
+            const rpc = await getRpcClient(WATCHER_CLIENT_ID, network);
+            ({ entries } = await rpc.getUtxosByAddresses({ addresses: [...new Set(watched.map(request => request.address))] }));
+        } catch (error) {
+            Logger.warn(`Failed to check payment requests on ${network}: ${error}`);
+            continue;
+        }
+
+        for (const request of watched) {
+            try {
+                const payment = await findPayment(request, entries ?? [], claimed);
+                if (!payment) {
+                    continue;
+                }
+
+                claimed.add(payment.outpoint.transactionId);
+                const updated = await store.update(data => {
+                    const entry = data[request.id];
+                    if (entry) {
+                        entry.paidTxId = payment.outpoint.transactionId;
+                        entry.paidAmount = BigInt(payment.amount).toString();
+                        entry.paidAt = Date.now();
+                    }
+                    return entry && { ...entry };
+                });
+                if (updated) {
+                    paid.push(updated);
+                }
+            } catch (error) {
+                Logger.warn(`Failed to check payment request ${request.id}: ${error}`);
+            }
+        }
+    }
+
+    return paid;
+}
+
+export function createPaymentReceivedEmbed(request: PaymentRequest): EmbedBuilder {
+    const embed = new EmbedBuilder()
+        .setColor(0x00FF00)
+        .setTitle('Payment Request Paid')
+        .addFields(
+            { name: 'Received', value: sompiToKaspaStringWithSuffix(BigInt(request.paidAmount ?? 0), userSettings.getNetworkType(request.network)), inline: true },
+            { name: 'Request', value: request.id, inline: true },
+            { name: 'Transaction', value: getExplorerTxUrl(request.network, request.paidTxId!) }
+        )
+        .setTimestamp();
+    if (request.memo) {
+        embed.setDescription(`Memo: ${request.memo}`);
+    }
+    return embed;
+}
+
+let watcherBusy = false;
+
+/**
+ * Polls open payment requests and DMs their owner once each one is paid.
+ * Paid requests are kept until they expire so the receive view can list them.
+ */
+export const startPaymentRequestWatcher = (client: Client<true>): void => {
+    setInterval(async () => {
+        if (watcherBusy) {
+            return;
+        }
+        watcherBusy = true;
+        try {
+            for (const request of await checkPaymentRequests()) {
+                Logger.info(`Payment request ${request.id} paid in ${request.paidTxId}`);
+                const user = await client.users.fetch(request.userId);
+                await user.send({ embeds: [createPaymentReceivedEmbed(request)] })
+                    .catch(error => Logger.warn(`Failed to notify user ${request.userId} about payment request ${request.id}: ${error}`));
+            }
+        } catch (error) {
+            Logger.error(`Payment request watcher failed: ${error}`);
+        } finally {
+            watcherBusy = false;
+        }
+    }, WATCH_INTERVAL);
+};
@@ -0,0 +1,56 @@
+import path from 'path';
+import { Network } from './userSettings';
+import { createJsonStore } from './jsonStore';
+
+const PENDING_INSCRIPTIONS_PATH = process.env.PENDING_INSCRIPTIONS_PATH || path.join('data', 'pending_inscriptions.json');
+
+/**
+ * A commit whose P2SH output has not been revealed yet. Everything except the
+ * private key is kept, so the reveal script can be rebuilt after a restart.
+ */
+export interface PendingInscription {
+    commitTxId: string;
+    userId: string;
+    network: Network;
+    senderAddress: string;
+    p2shAddress: string;
+    payload: string;
+    revealFee: string; // sompi
+    revealOutputAddress?: string;
+    revealOutputAmount?: string; // sompi
+    createdAt: number;
+    attempts: number;
+    lastError?: string;
+}
+
+type PendingInscriptionFile = Record<string, PendingInscription>;
+
+const store = createJsonStore<PendingInscriptionFile>(PENDING_INSCRIPTIONS_PATH, 'pending inscription log', () => ({}));
+
+export async function addPendingInscription(pending: PendingInscription): Promise<void> {
+    await store.update(data => {
+        data[pending.commitTxId] = pending;
+    });
+}
+
+export async function markRevealAttempt(commitTxId: string, error?: string): Promise<void> {
+    await store.update(data => {
+        const pending = data[commitTxId];
+        if (pending) {
+            pending.attempts++;
+            pending.lastError = error;
+        }
+    });
+}
+
+export async function removePendingInscription(commitTxId: string): Promise<void> {
+    await store.update(data => {
+        delete data[commitTxId];
+    });
+}
+
+export async function getPendingInscriptions(userId?: string): Promise<PendingInscription[]> {
+    const pending = Object.values(await store.read());
+    return (userId ? pending.filter(entry => entry.userId === userId) : pending)
+        .sort((a, b) => a.createdAt - b.createdAt);
+}
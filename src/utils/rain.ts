@@ -0,0 +1,100 @@
+import { Guild } from 'discord.js';
+import { userSettings, Network } from './userSettings';
+import { getRecentlyActive } from './channelActivity';
+import { getReceiveAddress } from './receiveAddresses';
+import { transferToken } from './transferToken';
+import { Logger } from './logger';
+import { AppError } from './errorHandler';
+
+export const MAX_RAIN_RECIPIENTS = 25;
+export const DEFAULT_MIN_ACCOUNT_AGE_DAYS = parseInt(process.env.RAIN_MIN_ACCOUNT_AGE_DAYS || '7', 10);
+const RAIN_ACTIVITY_WINDOW = parseInt(process.env.RAIN_ACTIVITY_MINUTES || '30', 10) * 60 * 1000;
+
+export interface RainRecipient {
+    userId: string;
+    address: string;
+}
+
+export interface RainFilter {
+    roleId?: string;
+    minAccountAgeDays: number;
+}
+
+export interface TokenRainResult {
+    recipient: RainRecipient;
+    txId?: string;
+    error?: string;
+}
+
+/**
+ * Picks up to `count` members who spoke in the channel recently, most recent
+ * first. Only members with a registered receive address on `network` qualify,
+ * since rain is never held in escrow.
+ */
+export async function selectRainRecipients(guild: Guild, channelId: string, rainerId: string, network: Network, count: number, filter: RainFilter): Promise<RainRecipient[]> {
+    const minCreatedAt = Date.now() - filter.minAccountAgeDays * 24 * 60 * 60 * 1000;
+    const recipients: RainRecipient[] = [];
+
+    for (const userId of getRecentlyActive(channelId, RAIN_ACTIVITY_WINDOW)) {
+        if (recipients.length >= count) {
+            break;
+        }
+        if (userId === rainerId) {
+            continue;
+        }
+
+        const address = await getReceiveAddress(userId, network);
+        if (!address) {
+            continue;
+        }
+
+        const member = await guild.members.fetch(userId).catch(() => undefined);
+        if (!member || member.user.bot || member.user.createdTimestamp > minCreatedAt) {
+            continue;
+        }
+        if (filter.roleId && !member.roles.cache.has(filter.roleId)) {
+            continue;
+        }
+        recipients.push({ userId, address });
+    }
+
+    return recipients;
+}
+
+/**
+ * Splits `total` evenly; any indivisible remainder stays with the sender.
+ */
+export function splitRain(total: bigint, recipients: number): bigint {
+    const perRecipient = total / BigInt(recipients);
+    if (perRecipient <= 0n) {
+        throw new AppError('Amount too small', 'That amount is too small to split between this many members.', 'RAIN_AMOUNT_TOO_SMALL');
+    }
+    return perRecipient;
+}
+
+/**
+ * KRC-20 transfers are one commit/reveal pair each, so token rain runs them in
+ * sequence. It stops early if the wallet session ends.
+ */
+export async function runTokenRain(userId: string, network: Network, ticker: string, perRecipient: bigint, recipients: RainRecipient[], onProgress: (done: number) => Promise<void>): Promise<TokenRainResult[]> {
+    const results: TokenRainResult[] = [];
+
+    for (const recipient of recipients) {
+        const privateKey = userSettings.get(userId)?.privateKey;
+        if (!privateKey) {
+            results.push({ recipient, error: 'wallet session ended' });
+            continue;
+        }
+
+        try {
+            const result = await transferToken(userId, network, ticker, perRecipient, recipient.address, privateKey);
+            results.push({ recipient, txId: result.revealTxId });
+        } catch (error) {
+            Logger.error(`Rain transfer to ${recipient.userId} failed: ${error}`);
+            results.push({ recipient, error: error instanceof AppError ? error.userMessage : String(error) });
+        }
+        await onProgress(results.length);
+    }
+
+    return results;
+}
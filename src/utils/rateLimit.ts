@@ -52,11 +52,18 @@ const globalRateLimiter = new RateLimiter(20, 60000); // 20 requests per minute
 const actionRateLimiters = new Map<string, RateLimiter>();
 
 actionRateLimiters.set('sendKaspa', new RateLimiter(5, 300000)); // 5 sends per 5 minutes
+actionRateLimiters.set('sendToken', new RateLimiter(5, 300000)); // 5 token transfers per 5 minutes
+actionRateLimiters.set('deployToken', new RateLimiter(3, 600000)); // 3 token deployments per 10 minutes
 actionRateLimiters.set('checkBalance', new RateLimiter(20, 60000)); // 20 balance checks per minute
 actionRateLimiters.set('walletCommand', new RateLimiter(5, 60000)); // 5 wallet commands per minute
 actionRateLimiters.set('walletActions', new RateLimiter(20, 60000)); // 20 wallet actions per minute
 actionRateLimiters.set('networkSelection', new RateLimiter(10, 60000)); // 10 network selections per minute
 actionRateLimiters.set('importWallet', new RateLimiter(5, 60000)); // 5 wallet imports per minute
+actionRateLimiters.set('market', new RateLimiter(5, 300000)); // 5 market listings, purchases or cancellations per 5 minutes
+actionRateLimiters.set('tip', new RateLimiter(10, 600000)); // 10 tips per member per server per 10 minutes
+actionRateLimiters.set('rain', new RateLimiter(2, 600000)); // 2 rains per member per server per 10 minutes
+actionRateLimiters.set('vault', new RateLimiter(5, 900000)); // 5 vault passphrase attempts per 15 minutes
+actionRateLimiters.set('spendingPin', new RateLimiter(5, 900000)); // 5 spending PIN attempts per 15 minutes
 actionRateLimiters.set('showTransactionHistory', new RateLimiter(5, 60000)); // 5 transaction history requests per minute
 actionRateLimiters.set('showHelpMessage', new RateLimiter(10, 60000)); // 10 help message requests per minute
 actionRateLimiters.set('clearChatHistory', new RateLimiter(5, 300000)); // 1 chat history clear per 5 minutes
@@ -0,0 +1,37 @@
+import path from 'path';
+import { Network } from './userSettings';
+import { createJsonStore } from './jsonStore';
+
+const RECEIVE_ADDRESSES_PATH = process.env.RECEIVE_ADDRESSES_PATH || path.join('data', 'receive_addresses.json');
+
+/**
+ * Public addresses users have registered for receiving tips and rain, one per
+ * network. Unlike wallet sessions these survive restarts, so users can be paid
+ * without having a wallet open.
+ */
+type ReceiveAddressFile = Record<string, Partial<Record<Network, string>>>;
+
+const store = createJsonStore<ReceiveAddressFile>(RECEIVE_ADDRESSES_PATH, 'receive address book', () => ({}));
+
+export async function setReceiveAddress(userId: string, network: Network, address: string): Promise<void> {
+    await store.update(data => {
+        data[userId] = { ...data[userId], [network]: address };
+    });
+}
+
+export async function clearReceiveAddress(userId: string, network: Network): Promise<void> {
+    await store.update(data => {
+        delete data[userId]?.[network];
+        if (data[userId] && Object.keys(data[userId]).length === 0) {
+            delete data[userId];
+        }
+    });
+}
+
+export async function getReceiveAddress(userId: string, network: Network): Promise<string | undefined> {
+    return (await store.read())[userId]?.[network];
+}
+
+export async function getReceiveAddresses(userId: string): Promise<Partial<Record<Network, string>>> {
+    return { ...(await store.read())[userId] };
+}
@@ -11,6 +11,24 @@ const rpcClients: Map<string, RpcClient> = new Map();
 const rpcConnections: Map<string, boolean> = new Map();
 const utxoProcessors: Map<string, UtxoProcessor> = new Map();
 const utxoContexts: Map<string, UtxoContext> = new Map();
+const trackedAddresses: Map<string, Set<string>> = new Map();
+
+const WATCH_PREFIX = 'watch:';
+
+/** A transaction record from a UtxoProcessor `pending` event on a watched wallet. */
+export interface UtxoTransactionRecord {
+    id: string;
+    type: string;
+    value: bigint;
+    data?: { data?: { utxoEntries?: { address?: { toString(): string } | string }[] } };
+}
+
+type UtxoEventListener = (userId: string, network: Network, record: UtxoTransactionRecord) => void;
+const utxoEventListeners: UtxoEventListener[] = [];
+
+export const addUtxoEventListener = (listener: UtxoEventListener) => {
+    utxoEventListeners.push(listener);
+};
 
 const createRpcClient = (network: Network): RpcClient => {
     return new RpcClient({
@@ -109,6 +127,27 @@ export const disconnectRpc = async (userId: string, network: Network): Promise<v
     }
 };
 
+/**
+ * Disconnects and forgets everything cached for a user's network connection,
+ * including any UTXO processor and context built on top of it.
+ */
+export const teardownRpcClient = async (userId: string, network: Network): Promise<void> => {
+    const clientKey = `${userId}-${network}`;
+
+    const processor = utxoProcessors.get(clientKey);
+    if (processor) {
+        await processor.stop();
+        utxoProcessors.delete(clientKey);
+    }
+    utxoContexts.delete(clientKey);
+    trackedAddresses.delete(clientKey);
+
+    await disconnectRpc(userId, network);
+    rpcClients.delete(clientKey);
+    rpcConnections.delete(clientKey);
+    Logger.info(`RPC client torn down for ${clientKey}`);
+};
+
 export const getUtxoProcessor = async (userId: string, network: Network): Promise<UtxoProcessor> => {
     const clientKey = `${userId}-${network}`;
     try {
@@ -116,8 +155,23 @@ export const getUtxoProcessor = async (userId: string, network: Network): Promis
             if (!utxoProcessors.has(clientKey)) {
                 const rpc = await getRpcClient(userId, network);
                 const processor = new UtxoProcessor({ rpc, networkId: getNetworkId(network) });
+                if (userId.startsWith(WATCH_PREFIX)) {
+                    const ownerId = userId.slice(WATCH_PREFIX.length);
+                    processor.addEventListener('pending', (event: { data: UtxoTransactionRecord }) => {
+                        utxoEventListeners.forEach(listener => listener(ownerId, network, event.data));
+                    });
+                }
+
+                // Addresses can only be tracked once the processor reports it has started
+                await new Promise<void>((resolve) => {
+                    const listener = () => {
+                        processor.removeEventListener('utxo-proc-start', listener);
+                        resolve();
+                    };
+                    processor.addEventListener('utxo-proc-start', listener);
+                    processor.start();
+                });
                 utxoProcessors.set(clientKey, processor);
-                processor.start();
             }
             return utxoProcessors.get(clientKey)!;
         }, 'Error getting UTXO processor');
@@ -142,6 +196,46 @@ export const getUtxoContext = async (userId: string, network: Network): Promise<
     }
 };
 
-const listener = async (): Promise<void> => {
-    // Add types for the event listener
-};
\ No newline at end of file
+/**
+ * Returns the user's shared UtxoContext with every address in `addresses`
+ * tracked. Newly derived addresses are added incrementally.
+ */
+export const getTrackedUtxoContext = async (userId: string, network: Network, addresses: string[]): Promise<UtxoContext> => {
+    const clientKey = `${userId}-${network}`;
+    const context = await getUtxoContext(userId, network);
+
+    const tracked = trackedAddresses.get(clientKey) ?? new Set<string>();
+    const untracked = addresses.filter(address => !tracked.has(address));
+    if (untracked.length > 0) {
+        await context.trackAddresses(untracked);
+        untracked.forEach(address => tracked.add(address));
+        trackedAddresses.set(clientKey, tracked);
+        Logger.info(`Tracking ${untracked.length} new address(es) for ${clientKey}`);
+    }
+
+    return context;
+};
+
+/** Stops tracking every address, e.g. after the user switches to another HD account. */
+export const resetTrackedAddresses = async (userId: string, network: Network): Promise<void> => {
+    const clientKey = `${userId}-${network}`;
+    const context = utxoContexts.get(clientKey);
+    if (context) {
+        await context.clear();
+    }
+    trackedAddresses.delete(clientKey);
+};
+
+/**
+ * Addresses watched for incoming payments get their own RPC client and
+ * UtxoContext, keyed apart from the wallet session's, so a watched address
+ * never ends up as a spendable input of the open wallet.
+ */
+export const watchAddresses = (userId: string, network: Network, addresses: string[]): Promise<UtxoContext> =>
+    getTrackedUtxoContext(`${WATCH_PREFIX}${userId}`, network, addresses);
+
+export const unwatchAddresses = (userId: string, network: Network): Promise<void> =>
+    teardownRpcClient(`${WATCH_PREFIX}${userId}`, network);
+
+export const isWatching = (userId: string, network: Network): boolean =>
+    utxoProcessors.has(`${WATCH_PREFIX}${userId}-${network}`);
\ No newline at end of file
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import path from 'path';
+import { Network } from './userSettings';
+import { createJsonStore } from './jsonStore';
+import { nextCronRun } from './cronSchedule';
+import { AppError } from './errorHandler';
+
+const SCHEDULED_PAYMENTS_PATH = process.env.SCHEDULED_PAYMENTS_PATH || path.join('data', 'scheduled_payments.json');
+export const MAX_SCHEDULES_PER_USER = 20;
+const MIN_CRON_INTERVAL = 60 * 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+
+export type PaymentRecurrence =
+    | { type: 'once' }
+    | { type: 'interval'; everyDays: number }
+    | { type: 'cron'; expression: string };
+
+/**
+ * A KAS payment that runs from the owner's vault wallet while it is unlocked.
+ * `fromAddress` is the vault's primary address, so a different wallet opened
+ * in the session never pays it.
+ */
+export interface ScheduledPayment {
+    id: string;
+    userId: string;
+    network: Network;
+    fromAddress: string;
+    toAddress: string;
+    amount: string; // sompi
+    label?: string;
+    recurrence: PaymentRecurrence;
+    status: 'active' | 'paused';
+    nextRunAt: number;
+    lastRunAt?: number;
+    lastTxId?: string;
+    lastError?: string;
+    // The due time the owner was last told about a locked wallet, so they are told once per run
+    lockedNoticeFor?: number;
+    createdAt: number;
+}
+
+type ScheduledPaymentFile = Record<string, ScheduledPayment>;
+
+const store = createJsonStore<ScheduledPaymentFile>(SCHEDULED_PAYMENTS_PATH, 'payment schedule', () => ({}));
+
+/**
+ * The next run strictly after `after`, or undefined once a one-off payment
+ * has run.
+ */
+export function getNextRun(recurrence: PaymentRecurrence, previousRun: number, after: number = previousRun): number | undefined {
+    switch (recurrence.type) {
+        case 'once':
+            return undefined;
+        case 'interval': {
+            // Stay on the original cadence even when runs were missed
+            const interval = recurrence.everyDays * DAY;
+            const missed = Math.max(1, Math.ceil((after - previousRun) / interval));
+            return previousRun + missed * interval;
+        }
+        case 'cron':
+            return nextCronRun(recurrence.expression, after);
+    }
+}
+
+export function validateRecurrence(recurrence: PaymentRecurrence): void {
+    if (recurrence.type === 'interval' && (!Number.isInteger(recurrence.everyDays) || recurrence.everyDays < 1)) {
+        throw new AppError('Invalid schedule', 'Recurring payments must repeat every 1 day or more.', 'INVALID_SCHEDULE');
+    }
+    if (recurrence.type === 'cron') {
+        const first = nextCronRun(recurrence.expression, Date.now());
+        if (nextCronRun(recurrence.expression, first) - first < MIN_CRON_INTERVAL) {
+            throw new AppError('Invalid schedule', 'Cron schedules may run at most once an hour.', 'INVALID_SCHEDULE');
+        }
+    }
+}
+
+export async function addScheduledPayment(payment: Omit<ScheduledPayment, 'id' | 'status' | 'createdAt'>): Promise<ScheduledPayment> {
+    validateRecurrence(payment.recurrence);
+    return store.update(data => {
+        const owned = Object.values(data).filter(entry => entry.userId === payment.userId).length;
+        if (owned >= MAX_SCHEDULES_PER_USER) {
+            throw new AppError('Too many schedules', `You can have at most ${MAX_SCHEDULES_PER_USER} scheduled payments. Cancel one first.`, 'TOO_MANY_SCHEDULES');
+        }
+        const scheduled: ScheduledPayment = { ...payment, id: crypto.randomBytes(4).toString('hex'), status: 'active', createdAt: Date.now() };
+        data[scheduled.id] = scheduled;
+        return scheduled;
+    });
+}
+
+export async function getScheduledPayments(userId: string): Promise<ScheduledPayment[]> {
+    return Object.values(await store.read())
+        .filter(payment => payment.userId === userId)
+        .sort((a, b) => a.nextRunAt - b.nextRunAt);
+}
+
+export async function getDuePayments(now: number = Date.now()): Promise<ScheduledPayment[]> {
+    return Object.values(await store.read()).filter(payment => payment.status === 'active' && payment.nextRunAt <= now);
+}
+
+/**
+ * Applies `mutate` to one of the user's schedules. Returns undefined when the
+ * schedule does not exist or belongs to someone else.
+ */
+export async function updateScheduledPayment(userId: string, id: string, mutate: (payment: ScheduledPayment) => void): Promise<ScheduledPayment | undefined> {
+    return store.update(data => {
+        const payment = data[id.toLowerCase()];
+        if (!payment || payment.userId !== userId) {
+            return undefined;
+        }
+        mutate(payment);
+        return { ...payment };
+    });
+}
+
+export async function removeScheduledPayment(userId: string, id: string): Promise<boolean> {
+    return store.update(data => {
+        const payment = data[id.toLowerCase()];
+        if (!payment || payment.userId !== userId) {
+            return false;
+        }
+        delete data[payment.id];
+        return true;
+    });
+}
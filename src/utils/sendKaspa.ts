@@ -1,11 +1,23 @@
-import { UtxoProcessor, UtxoContext, createTransactions, PrivateKey, Address } from "../../wasm/kaspa/kaspa";
-import { getRpcClient } from './rpcConnection';
+import { createTransactions, Address } from "../../wasm/kaspa/kaspa";
+import { getRpcClient, getTrackedUtxoContext } from './rpcConnection';
+import { getWalletAddresses, getWalletPrivateKeys, getChangeAddress, advanceChangeAddress, discoverUsedAddresses } from './hdWallet';
 import { userSettings, Network, UserSession } from './userSettings';
 import { retryableRequest, handleNetworkError } from './networkUtils';
+import { describeSubmitRejection } from './transactionTracker';
+import { withSpendingLimit } from './spendingLimits';
 import { Logger } from './logger';
 import { AppError } from './errorHandler';
 
-export const sendKaspa = async (userId: string, amount: bigint, destinationAddress: string, network: Network) => {
+export interface SendKaspaEstimate {
+    amount: bigint;
+    priorityFee: bigint;
+    fees: bigint;
+    totalDebit: bigint;
+    transactions: number;
+    mass: bigint;
+}
+
+const getSendingSession = (userId: string) => {
     const userSession = userSettings.get(userId);
     if (!userSession || !userSession.address || !userSession.privateKey) {
         throw new AppError('User Not Found', 'User wallet not found or incomplete wallet information', 'USER_NOT_FOUND');
@@ -14,54 +26,139 @@ export const sendKaspa = async (userId: string, amount: bigint, destinationAddre
     if (typeof userSession.address !== 'string' || typeof userSession.privateKey !== 'string') {
         throw new AppError('Invalid Wallet Data', 'Invalid address or private key format', 'INVALID_WALLET_DATA');
     }
+    return userSession;
+};
+
+export interface PaymentOutput {
+    address: string;
+    amount: bigint;
+}
+
+// A sweep has no explicit outputs: every UTXO is spent and the remainder after fees goes to the change address
+type SendTarget = { outputs: PaymentOutput[] } | { sweepTo: string };
+
+const buildTransactions = async (userId: string, userSession: UserSession, network: Network, target: SendTarget, priorityFee: bigint) => {
+    // Inputs can come from any derived address; change goes to the wallet's change address
+    await discoverUsedAddresses(userId, userSession);
+    const context = await getTrackedUtxoContext(userId, network, getWalletAddresses(userSession));
+
+    const isSweep = 'sweepTo' in target;
+    const { transactions, summary } = await createTransactions({
+        entries: context,
+        outputs: isSweep ? [] : target.outputs.map(output => ({ address: new Address(output.address), amount: output.amount })),
+        changeAddress: new Address(isSweep ? target.sweepTo : getChangeAddress(userSession)),
+        priorityFee
+    });
+
+    if (transactions.length === 0) {
+        throw new AppError('No Transaction Created', 'No transaction created', 'NO_TRANSACTION_CREATED');
+    }
+    return { transactions, summary };
+};
+
+const estimate = async (userId: string, network: Network, target: SendTarget, priorityFee: bigint): Promise<SendKaspaEstimate> => {
+    const userSession = getSendingSession(userId);
 
     try {
         return await retryableRequest(async () => {
-            const rpc = await getRpcClient(userId, network);
-            const processor = new UtxoProcessor({ rpc, networkId: network });
-            const context = new UtxoContext({ processor });
-
-            await new Promise<void>((resolve) => {
-                const listener = async () => {
-                    Logger.info(`UtxoProcessor initialized for user: ${userId}`);
-                    await context.trackAddresses([userSession.address as string]);
-                    processor.removeEventListener('utxo-proc-start', listener);
-                    resolve();
-                };
-                processor.addEventListener('utxo-proc-start', listener);
-                processor.start();
-            });
+            const { summary } = await buildTransactions(userId, userSession, network, target, priorityFee);
+            const fees = BigInt(summary.fees);
+            const amount = 'sweepTo' in target
+                ? BigInt(summary.finalAmount)
+                : target.outputs.reduce((total, output) => total + output.amount, 0n);
+            return {
+                amount,
+                priorityFee,
+                fees,
+                totalDebit: amount + fees,
+                transactions: Number(summary.transactions),
+                mass: BigInt(summary.mass)
+            };
+        }, 'Error estimating Kaspa send');
+    } catch (error) {
+        throw handleNetworkError(error, 'estimating the transaction fee');
+    }
+};
 
-            const userAddress = new Address(userSession.address as string);
+const submit = async (userId: string, network: Network, target: SendTarget, priorityFee: bigint): Promise<string> => {
+    const userSession = getSendingSession(userId);
 
-            const { transactions, summary } = await createTransactions({
-                entries: context,
-                outputs: [{ address: new Address(destinationAddress), amount }],
-                changeAddress: userAddress,
-                priorityFee: 0n
-            });
+    try {
+        return await retryableRequest(async () => {
+            const rpc = await getRpcClient(userId, network);
+            const { transactions, summary } = await buildTransactions(userId, userSession, network, target, priorityFee);
+
+            const isSweep = 'sweepTo' in target;
+            const amount = isSweep ? BigInt(summary.finalAmount) : target.outputs.reduce((total, output) => total + output.amount, 0n);
+            const spend = {
+                kind: 'send' as const,
+                amount: amount + BigInt(summary.fees),
+                destinations: isSweep ? [target.sweepTo] : target.outputs.map(output => output.address)
+            };
 
-            if (transactions.length === 0) {
-                throw new AppError('No Transaction Created', 'No transaction created', 'NO_TRANSACTION_CREATED');
-            }
+            return withSpendingLimit(userId, spend, async () => {
+                const privateKeys = getWalletPrivateKeys(userSession);
 
-            const privateKey = new PrivateKey(userSession.privateKey as string);
+                for (const transaction of transactions) {
+                    Logger.info(`Signing and submitting transaction: ${transaction.id}`);
+                    await transaction.sign(privateKeys);
+                    await transaction.submit(rpc);
+                    emitTransactionEvent(userId, transaction.id);
+                }
 
-            for (const transaction of transactions) {
-                Logger.info(`Signing and submitting transaction: ${transaction.id}`);
-                await transaction.sign([privateKey]);
-                await transaction.submit(rpc);
-                emitTransactionEvent(userId, transaction.id);
-            }
+                // The final transaction has one output more than requested when it returns change
+                const finalTransaction = transactions[transactions.length - 1];
+                if (!isSweep && finalTransaction.transaction.outputs.length > target.outputs.length) {
+                    advanceChangeAddress(userSession);
+                }
 
-            Logger.info(`All transactions sent successfully. Final ID: ${summary.finalTransactionId}`);
-            return summary.finalTransactionId;
+                Logger.info(`All transactions sent successfully. Final ID: ${summary.finalTransactionId}`);
+                return summary.finalTransactionId;
+            });
         }, 'Error sending Kaspa');
     } catch (error) {
-        throw handleNetworkError(error, 'sending Kaspa');
+        if (error instanceof AppError) {
+            throw error;
+        }
+        throw describeSubmitRejection(error) ?? handleNetworkError(error, 'sending Kaspa');
     }
 };
 
+/**
+ * Dry run of a send: builds (but never signs or submits) the transactions so
+ * the exact fees and mass can be shown before the user confirms.
+ */
+export const estimateSendKaspa = (userId: string, amount: bigint, destinationAddress: string, network: Network, priorityFee: bigint = 0n) =>
+    estimate(userId, network, { outputs: [{ address: destinationAddress, amount }] }, priorityFee);
+
+export const sendKaspa = (userId: string, amount: bigint, destinationAddress: string, network: Network, priorityFee: bigint = 0n) =>
+    submit(userId, network, { outputs: [{ address: destinationAddress, amount }] }, priorityFee);
+
+/**
+ * Pays several recipients at once. All outputs go into the final transaction,
+ * so they either all land or none do.
+ */
+export const estimateSendKaspaBatch = (userId: string, outputs: PaymentOutput[], network: Network, priorityFee: bigint = 0n) =>
+    estimate(userId, network, { outputs }, priorityFee);
+
+export const sendKaspaBatch = (userId: string, outputs: PaymentOutput[], network: Network, priorityFee: bigint = 0n) =>
+    submit(userId, network, { outputs }, priorityFee);
+
+/**
+ * Dry run of a sweep. `amount` in the result is what the destination receives:
+ * the full spendable balance minus fees.
+ */
+export const estimateSweepKaspa = (userId: string, destinationAddress: string, network: Network, priorityFee: bigint = 0n) =>
+    estimate(userId, network, { sweepTo: destinationAddress }, priorityFee);
+
+/**
+ * Sends the wallet's entire spendable balance to `destinationAddress`,
+ * compounding UTXOs over several transactions if needed. Returns the final
+ * transaction id.
+ */
+export const sweepKaspa = (userId: string, destinationAddress: string, network: Network, priorityFee: bigint = 0n) =>
+    submit(userId, network, { sweepTo: destinationAddress }, priorityFee);
+
 type TransactionEventListener = (userId: string, txId: string) => void;
 const transactionEventListeners: TransactionEventListener[] = [];
 
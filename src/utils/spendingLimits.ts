@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import path from 'path';
+import { promisify } from 'util';
+import { sompiToKaspaString } from '../../wasm/kaspa/kaspa';
+import { createJsonStore } from './jsonStore';
+import { Logger } from './logger';
+import { AppError } from './errorHandler';
+
+const scrypt = promisify(crypto.scrypt) as (password: crypto.BinaryLike, salt: crypto.BinaryLike, keylen: number, options: crypto.ScryptOptions) => Promise<Buffer>;
+
+const SPENDING_LIMITS_PATH = process.env.SPENDING_LIMITS_PATH || path.join('data', 'spending_limits.json');
+const DAY = 24 * 60 * 60 * 1000;
+export const MAX_ALLOWLIST_SIZE = 25;
+const PIN_PATTERN = /^\d{4,8}$/;
+const PIN_KDF_PARAMS = { N: 16384, r: 8, p: 1 };
+const PIN_KEY_LENGTH = 32;
+
+/**
+ * A user's own guard rails, applied to every wallet they open. Amounts are in
+ * sompi and count the KAS leaving the wallet, fees included.
+ */
+export interface SpendingPolicy {
+    dailyLimit?: string;
+    perTxLimit?: string;
+    /** Spends above this need the PIN, or the amount typed again when no PIN is set. */
+    stepUpThreshold?: string;
+    allowlistEnabled: boolean;
+    allowlist: string[];
+    pin?: { salt: string; hash: string };
+    /** Reserved or completed spends of the last 24 hours, for the daily limit. */
+    spends: { id: string; at: number; amount: string }[];
+}
+
+export type SpendKind = 'send' | 'transfer' | 'mint' | 'deploy' | 'purchase' | 'listing' | 'cancellation' | 'recovery';
+
+export interface Spend {
+    kind: SpendKind;
+    amount: bigint;
+    destinations: string[];
+}
+
+type SpendingPolicyFile = Record<string, SpendingPolicy>;
+
+const store = createJsonStore<SpendingPolicyFile>(SPENDING_LIMITS_PATH, 'spending limits', () => ({}));
+
+const createDefaultPolicy = (): SpendingPolicy => ({ allowlistEnabled: false, allowlist: [], spends: [] });
+
+const formatKas = (sompi: bigint | string) => `${sompiToKaspaString(BigInt(sompi))} KAS`;
+
+const pruneSpends = (policy: SpendingPolicy, now: number) => {
+    policy.spends = policy.spends.filter(spend => now - spend.at < DAY);
+};
+
+const getSpentToday = (policy: SpendingPolicy, now: number): bigint =>
+    policy.spends.filter(spend => now - spend.at < DAY).reduce((total, spend) => total + BigInt(spend.amount), 0n);
+
+const checkSpend = (policy: SpendingPolicy, spend: Spend, now: number): void => {
+    if (policy.perTxLimit && spend.amount > BigInt(policy.perTxLimit)) {
+        throw new AppError(
+            'Spending limit exceeded',
+            `This ${spend.kind} costs ${formatKas(spend.amount)}, which is over your per-transaction limit of ${formatKas(policy.perTxLimit)}. Change it with \`/limits set\`.`,
+            'SPENDING_LIMIT_EXCEEDED'
+        );
+    }
+
+    if (policy.dailyLimit) {
+        const remaining = BigInt(policy.dailyLimit) - getSpentToday(policy, now);
+        if (spend.amount > remaining) {
+            throw new AppError(
+                'Spending limit exceeded',
+                `This ${spend.kind} costs ${formatKas(spend.amount)}, but only ${formatKas(remaining > 0n ? remaining : 0n)} of your ${formatKas(policy.dailyLimit)} daily limit is left for the next 24 hours.`,
+                'SPENDING_LIMIT_EXCEEDED'
+            );
+        }
+    }
+
+    if (policy.allowlistEnabled) {
+        const allowed = new Set(policy.allowlist);
+        const blocked = spend.destinations.find(address => !allowed.has(address.toLowerCase()));
+        if (blocked) {
+            throw new AppError(
+                'Address not allowed',
+                `${blocked} is not on your address allowlist. Add it with \`/limits allowlist add\` or turn allowlist mode off.`,
+                'ADDRESS_NOT_ALLOWED'
+            );
+        }
+    }
+};
+
+export async function getSpendingPolicy(userId: string): Promise<SpendingPolicy> {
+    const policy = (await store.read())[userId];
+    return policy ? { ...policy, allowlist: [...policy.allowlist], spends: [...policy.spends] } : createDefaultPolicy();
+}
+
+/** What is left of the daily limit, or undefined when there is none. */
+export function getRemainingDailyLimit(policy: SpendingPolicy, now: number = Date.now()): bigint | undefined {
+    return policy.dailyLimit === undefined ? undefined : BigInt(policy.dailyLimit) - getSpentToday(policy, now);
+}
+
+/** Checks a spend against the policy without reserving it, so prompts can fail early. */
+export async function assertSpendAllowed(userId: string, spend: Spend): Promise<void> {
+    checkSpend(await getSpendingPolicy(userId), spend, Date.now());
+}
+
+/**
+ * Runs `submit` with the spend counted against the daily limit. The spend is
+ * reserved before anything is signed, so concurrent sends cannot overshoot
+ * the limit together, and given back if `submit` fails.
+ */
+export async function withSpendingLimit<T>(userId: string, spend: Spend, submit: () => Promise<T>): Promise<T> {
+    if (!(await store.read())[userId]) {
+        return submit();
+    }
+
+    const reservationId = crypto.randomBytes(8).toString('hex');
+    await store.update(data => {
+        const policy = data[userId] ?? createDefaultPolicy();
+        const now = Date.now();
+        checkSpend(policy, spend, now);
+        pruneSpends(policy, now);
+        policy.spends.push({ id: reservationId, at: now, amount: spend.amount.toString() });
+        data[userId] = policy;
+    });
+
+    try {
+        return await submit();
+    } catch (error) {
+        await store.update(data => {
+            const policy = data[userId];
+            if (policy) {
+                policy.spends = policy.spends.filter(entry => entry.id !== reservationId);
+            }
+        }).catch(releaseError => Logger.error(`Failed to release spend reservation for user ${userId}: ${releaseError}`));
+        throw error;
+    }
+}
+
+/**
+ * Token amounts cannot be priced in KAS, so once a threshold is set every
+ * token transfer needs the second factor.
+ */
+export function requiresStepUp(policy: SpendingPolicy, spend: Spend): boolean {
+    if (policy.stepUpThreshold === undefined) {
+        return false;
+    }
+    return spend.kind === 'transfer' || spend.amount > BigInt(policy.stepUpThreshold);
+}
+
+export async function updateSpendingPolicy(userId: string, mutate: (policy: SpendingPolicy) => void): Promise<SpendingPolicy> {
+    return store.update(data => {
+        // Mutate a copy so a rejected change never reaches the cached file
+        const current = data[userId] ?? createDefaultPolicy();
+        const policy = { ...current, allowlist: [...current.allowlist], spends: [...current.spends] };
+        mutate(policy);
+        if (policy.allowlist.length > MAX_ALLOWLIST_SIZE) {
+            throw new AppError('Allowlist full', `Your allowlist can hold at most ${MAX_ALLOWLIST_SIZE} addresses.`, 'ALLOWLIST_FULL');
+        }
+        pruneSpends(policy, Date.now());
+        data[userId] = policy;
+        return { ...policy };
+    });
+}
+
+/**
+ * Whether `next` gives a thief more room than `current`: a raised or removed
+ * limit, a weaker allowlist or a changed PIN. Such changes need the PIN.
+ */
+export function isLoosening(current: SpendingPolicy, next: SpendingPolicy): boolean {
+    const raised = (before?: string, after?: string) => before !== undefined && (after === undefined || BigInt(after) > BigInt(before));
+    return raised(current.dailyLimit, next.dailyLimit)
+        || raised(current.perTxLimit, next.perTxLimit)
+        || raised(current.stepUpThreshold, next.stepUpThreshold)
+        || (current.allowlistEnabled && (!next.allowlistEnabled || next.allowlist.some(address => !current.allowlist.includes(address))))
+        || current.pin?.hash !== next.pin?.hash;
+}
+
+export function validatePin(pin: string): void {
+    if (!PIN_PATTERN.test(pin)) {
+        throw new AppError('Invalid PIN', 'Your spending PIN must be 4 to 8 digits.', 'INVALID_PIN');
+    }
+}
+
+export async function hashPin(pin: string): Promise<SpendingPolicy['pin']> {
+    validatePin(pin);
+    const salt = crypto.randomBytes(16);
+    const hash = await scrypt(pin, salt, PIN_KEY_LENGTH, PIN_KDF_PARAMS);
+    return { salt: salt.toString('hex'), hash: hash.toString('hex') };
+}
+
+export async function verifyPin(policy: SpendingPolicy, pin: string): Promise<boolean> {
+    if (!policy.pin) {
+        return false;
+    }
+    const hash = await scrypt(pin, Buffer.from(policy.pin.salt, 'hex'), PIN_KEY_LENGTH, PIN_KDF_PARAMS);
+    return crypto.timingSafeEqual(hash, Buffer.from(policy.pin.hash, 'hex'));
+}
@@ -0,0 +1,349 @@
+import crypto from 'crypto';
+import path from 'path';
+import { promisify } from 'util';
+import { PrivateKey, createTransactions } from "../../wasm/kaspa/kaspa";
+import { userSettings, Network } from './userSettings';
+import { getRpcClient } from './rpcConnection';
+import { sendKaspa } from './sendKaspa';
+import { transferToken } from './transferToken';
+import { getBalance } from './getBalance';
+import { fetchTokenInfo } from './tokenInfo';
+import { getReceiveAddress } from './receiveAddresses';
+import { parseTokenAmount, KAS_DECIMALS } from './amount';
+import { estimateInscriptionCost, submitInscription, waitForUtxo } from './krc20Inscription';
+import { getExplorerTxUrl } from './networkConfig';
+import { createJsonStore } from './jsonStore';
+import { Logger } from './logger';
+import { AppError } from './errorHandler';
+
+const scrypt = promisify(crypto.scrypt) as (password: crypto.BinaryLike, salt: crypto.BinaryLike, keylen: number) => Promise<Buffer>;
+
+const TIP_ESCROW_PATH = process.env.TIP_ESCROW_PATH || path.join('data', 'tip_escrow.json');
+export const ESCROW_EXPIRY_DAYS = parseInt(process.env.TIP_ESCROW_EXPIRY_DAYS || '30', 10);
+const FUNDING_TIMEOUT = 30000;
+const SETTLE_POLL_INTERVAL = 1000;
+
+/** What is being tipped: KAS, or a KRC-20 ticker with its decimals. */
+export interface TipAsset {
+    ticker: string | null;
+    decimals: number;
+}
+
+export interface Tip {
+    network: Network;
+    asset: TipAsset;
+    amount: bigint;
+}
+
+/**
+ * Funds held for a recipient who has not registered a receive address yet.
+ * The escrow key is generated per tip and only stored encrypted under
+ * TIP_ESCROW_SECRET.
+ */
+export interface TipEscrow {
+    id: string;
+    network: Network;
+    ticker: string | null;
+    decimals: number;
+    amount: string;
+    tipperId: string;
+    tipperAddress: string;
+    recipientId: string;
+    guildId: string | null;
+    escrowAddress: string;
+    sealedKey: { salt: string; iv: string; tag: string; ciphertext: string };
+    createdAt: number;
+    /** The token transfer of a release, kept so a retried release does not send it twice. */
+    transfer?: { txId: string; settled: boolean };
+}
+
+export interface TipOutcome {
+    escrowed: boolean;
+    address: string;
+    txId: string;
+    explorerUrl: string;
+}
+
+export interface EscrowRelease {
+    escrow: TipEscrow;
+    txId?: string;
+    error?: string;
+}
+
+type TipEscrowFile = Record<string, TipEscrow>;
+
+const store = createJsonStore<TipEscrowFile>(TIP_ESCROW_PATH, 'tip escrow ledger', () => ({}));
+
+const getEscrowSecret = (): string => {
+    const secret = process.env.TIP_ESCROW_SECRET;
+    if (!secret) {
+        throw new AppError('Escrow disabled', 'This user has not registered a receive address, and tip escrow is not enabled on this bot.', 'ESCROW_DISABLED');
+    }
+    return secret;
+};
+
+async function sealKey(escrowId: string, privateKey: string): Promise<TipEscrow['sealedKey']> {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const key = await scrypt(getEscrowSecret(), salt, 32);
+
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(Buffer.from(escrowId));
+    const ciphertext = Buffer.concat([cipher.update(privateKey, 'utf8'), cipher.final()]);
+    return { salt: salt.toString('hex'), iv: iv.toString('hex'), tag: cipher.getAuthTag().toString('hex'), ciphertext: ciphertext.toString('hex') };
+}
+
+async function openKey(escrow: TipEscrow): Promise<string> {
+    const { salt, iv, tag, ciphertext } = escrow.sealedKey;
+    const key = await scrypt(getEscrowSecret(), Buffer.from(salt, 'hex'), 32);
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'hex'));
+    decipher.setAAD(Buffer.from(escrow.id));
+    decipher.setAuthTag(Buffer.from(tag, 'hex'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'hex')), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Parses a tip amount for `KAS` or a KRC-20 ticker, looking up the token's
+ * decimals so the amount can be handled in its smallest unit.
+ */
+export async function parseTip(network: Network, amountInput: string, assetInput: string): Promise<Tip> {
+    const assetName = assetInput.toUpperCase();
+    if (assetName === 'KAS') {
+        return { network, asset: { ticker: null, decimals: KAS_DECIMALS }, amount: parseTokenAmount(amountInput, KAS_DECIMALS) };
+    }
+
+    const tokenInfo = await fetchTokenInfo(assetName, network);
+    if (!tokenInfo || ['unused', 'ignored'].includes(tokenInfo.state.toLowerCase())) {
+        throw new AppError('Unknown token', `${assetName} is not a deployed KRC20 token on ${network}.`, 'TOKEN_NOT_FOUND');
+    }
+    const decimals = parseInt(tokenInfo.dec, 10);
+    return { network, asset: { ticker: assetName, decimals }, amount: parseTokenAmount(amountInput, decimals) };
+}
+
+// Token transfers pay their own commit/reveal fees, so an escrow holding tokens also needs the KAS to move them on
+export const escrowFeeFunding = (tip: Tip): bigint => {
+    if (!tip.asset.ticker) {
+        return 0n;
+    }
+    const { fees, locked } = estimateInscriptionCost();
+    return fees + locked;
+};
+
+const getTippingSession = (userId: string) => {
+    const userSession = userSettings.get(userId);
+    if (!userSession?.privateKey || !userSession.address) {
+        throw new AppError('No wallet', 'Open or unlock your wallet with `/wallet` in a DM to the bot before tipping.', 'NO_WALLET_SESSION');
+    }
+    return { privateKey: userSession.privateKey, address: userSession.address };
+};
+
+const payTip = async (userId: string, privateKey: string, tip: Tip, address: string): Promise<string> => {
+    if (!tip.asset.ticker) {
+        return sendKaspa(userId, tip.amount, address, tip.network);
+    }
+    const result = await transferToken(userId, tip.network, tip.asset.ticker, tip.amount, address, privateKey);
+    return result.revealTxId;
+};
+
+/**
+ * Spends everything held by `address` to `destination` in one sweep.
+ */
+const sweepAddress = async (userId: string, network: Network, privateKey: string, address: string, destination: string): Promise<string | undefined> => {
+    const rpc = await getRpcClient(userId, network);
+    const { entries } = await rpc.getUtxosByAddresses({ addresses: [address] });
+    if (!entries || entries.length === 0) {
+        return undefined;
+    }
+
+    const { transactions, summary } = await createTransactions({
+        entries,
+        outputs: [],
+        changeAddress: destination,
+        priorityFee: 0n,
+        networkId: network
+    });
+    for (const transaction of transactions) {
+        transaction.sign([new PrivateKey(privateKey)]);
+        await transaction.submit(rpc);
+    }
+    return summary.finalTransactionId;
+};
+
+const fundEscrow = async (tipperId: string, recipientId: string, guildId: string | null, tip: Tip): Promise<TipOutcome> => {
+    const { privateKey, address: tipperAddress } = getTippingSession(tipperId);
+    getEscrowSecret();
+
+    const escrowKey = new PrivateKey(crypto.randomBytes(32).toString('hex'));
+    const escrowAddress = escrowKey.toPublicKey().toAddress(tip.network).toString();
+    const id = crypto.randomBytes(4).toString('hex');
+    const escrow: TipEscrow = {
+        id,
+        network: tip.network,
+        ticker: tip.asset.ticker,
+        decimals: tip.asset.decimals,
+        amount: tip.amount.toString(),
+        tipperId,
+        tipperAddress,
+        recipientId,
+        guildId,
+        escrowAddress,
+        sealedKey: await sealKey(id, escrowKey.toString()),
+        createdAt: Date.now()
+    };
+
+    // Recorded before any funds move, so a failure part-way never loses the key
+    await store.update(data => {
+        data[id] = escrow;
+    });
+
+    let feeTxId: string | undefined;
+    try {
+        const feeFunding = escrowFeeFunding(tip);
+        if (feeFunding > 0n) {
+            feeTxId = await sendKaspa(tipperId, feeFunding, escrowAddress, tip.network);
+        }
+        const txId = await payTip(tipperId, privateKey, tip, escrowAddress);
+        Logger.info(`Tip ${id} from ${tipperId} to ${recipientId} held in escrow at ${escrowAddress}`);
+        return { escrowed: true, address: escrowAddress, txId, explorerUrl: getExplorerTxUrl(tip.network, txId) };
+    } catch (error) {
+        if (feeTxId) {
+            // Hand the fee funding straight back rather than leaving it stranded
+            const rpc = await getRpcClient(tipperId, tip.network);
+            await waitForUtxo(rpc, escrowAddress, feeTxId, FUNDING_TIMEOUT);
+            await sweepAddress(tipperId, tip.network, escrowKey.toString(), escrowAddress, tipperAddress)
+                .catch(refundError => Logger.error(`Failed to refund fee funding of escrow ${id}: ${refundError}`));
+        }
+        await store.update(data => {
+            delete data[id];
+        });
+        throw error;
+    }
+};
+
+/**
+ * Pays a tip from the tipper's open wallet. Recipients with a registered
+ * receive address on the tip's network are paid directly; everyone else gets
+ * the funds held in escrow until they register one.
+ */
+export async function sendTip(tipperId: string, recipientId: string, guildId: string | null, tip: Tip): Promise<TipOutcome> {
+    const { privateKey } = getTippingSession(tipperId);
+
+    if (tip.asset.ticker) {
+        const { krc20Balances } = await getBalance(tipperId, tip.network);
+        const holding = krc20Balances.find(entry => entry.ticker.toUpperCase() === tip.asset.ticker);
+        if (!holding || BigInt(holding.rawBalance) < tip.amount) {
+            throw new AppError('Insufficient balance', `You don't have enough ${tip.asset.ticker} for this tip.`, 'INSUFFICIENT_TOKEN_BALANCE');
+        }
+    }
+
+    const address = await getReceiveAddress(recipientId, tip.network);
+    if (!address) {
+        return fundEscrow(tipperId, recipientId, guildId, tip);
+    }
+
+    Logger.info(`Tipping ${tip.amount} ${tip.asset.ticker ?? 'sompi'} from ${tipperId} to ${recipientId} on ${tip.network}`);
+    const txId = await payTip(tipperId, privateKey, tip, address);
+    return { escrowed: false, address, txId, explorerUrl: getExplorerTxUrl(tip.network, txId) };
+}
+
+const waitForEmptyAddress = async (userId: string, network: Network, address: string, timeout: number): Promise<boolean> => {
+    const rpc = await getRpcClient(userId, network);
+    const deadline = Date.now() + timeout;
+    while (Date.now() < deadline) {
+        const { entries } = await rpc.getUtxosByAddresses({ addresses: [address] });
+        if (!entries || entries.length === 0) {
+            return true;
+        }
+        await new Promise(resolve => setTimeout(resolve, SETTLE_POLL_INTERVAL));
+    }
+    return false;
+};
+
+const recordTransfer = (id: string, transfer: TipEscrow['transfer']) => store.update(data => {
+    if (data[id]) {
+        data[id].transfer = transfer;
+    }
+});
+
+const notSettled = () => new AppError('Escrow not settled', 'The payout is still settling. Please run `/claim` again in a minute.', 'ESCROW_NOT_SETTLED');
+
+/**
+ * Pays an escrow out with its own key, so the spending policy of whoever
+ * claims or is refunded does not apply. The record holds the only copy of
+ * that key, so it is kept until the escrow address is empty.
+ */
+const releaseEscrow = async (escrow: TipEscrow, userId: string, destination: string): Promise<EscrowRelease> => {
+    try {
+        const escrowKey = await openKey(escrow);
+        let transferTxId = escrow.transfer?.txId;
+        if (escrow.ticker && !escrow.transfer?.settled) {
+            if (!transferTxId) {
+                const result = await submitInscription(userId, escrow.network, {
+                    p: 'krc-20',
+                    op: 'transfer',
+                    tick: escrow.ticker,
+                    amt: escrow.amount,
+                    to: destination
+                }, escrowKey, { waitForConfirmation: false });
+                transferTxId = result.revealTxId;
+                await recordTransfer(escrow.id, { txId: transferTxId, settled: false });
+            }
+            // The reveal hands the commit's locked KAS back to the escrow, so sweeping before it lands would strand it
+            const rpc = await getRpcClient(userId, escrow.network);
+            if (!await waitForUtxo(rpc, escrow.escrowAddress, transferTxId, FUNDING_TIMEOUT)) {
+                throw notSettled();
+            }
+            await recordTransfer(escrow.id, { txId: transferTxId, settled: true });
+        }
+        // Whatever KAS is left (the tip itself, or what the token transfer did not spend) follows
+        const txId = await sweepAddress(userId, escrow.network, escrowKey, escrow.escrowAddress, destination) ?? transferTxId;
+        if (!await waitForEmptyAddress(userId, escrow.network, escrow.escrowAddress, FUNDING_TIMEOUT)) {
+            throw notSettled();
+        }
+
+        await store.update(data => {
+            delete data[escrow.id];
+        });
+        Logger.info(`Released escrow ${escrow.id} to ${destination}`);
+        return { escrow, txId };
+    } catch (error) {
+        Logger.error(`Failed to release escrow ${escrow.id}: ${error}`);
+        return { escrow, error: error instanceof AppError ? error.userMessage : String(error) };
+    }
+};
+
+const isExpired = (escrow: TipEscrow) => Date.now() - escrow.createdAt > ESCROW_EXPIRY_DAYS * 24 * 60 * 60 * 1000;
+
+export async function getEscrowsFor(recipientId: string): Promise<TipEscrow[]> {
+    return Object.values(await store.read()).filter(escrow => escrow.recipientId === recipientId);
+}
+
+export async function getExpiredEscrowsFrom(tipperId: string): Promise<TipEscrow[]> {
+    return Object.values(await store.read()).filter(escrow => escrow.tipperId === tipperId && isExpired(escrow));
+}
+
+/**
+ * Pays out every escrow held for `recipientId` on `network` to their newly
+ * registered address.
+ */
+export async function claimEscrows(recipientId: string, network: Network, address: string): Promise<EscrowRelease[]> {
+    const escrows = (await getEscrowsFor(recipientId)).filter(escrow => escrow.network === network);
+    const results: EscrowRelease[] = [];
+    for (const escrow of escrows) {
+        results.push(await releaseEscrow(escrow, recipientId, address));
+    }
+    return results;
+}
+
+/**
+ * Returns tips that went unclaimed for ESCROW_EXPIRY_DAYS to the address
+ * they were sent from.
+ */
+export async function refundExpiredEscrows(tipperId: string): Promise<EscrowRelease[]> {
+    const results: EscrowRelease[] = [];
+    for (const escrow of await getExpiredEscrowsFrom(tipperId)) {
+        results.push(await releaseEscrow(escrow, tipperId, escrow.tipperAddress));
+    }
+    return results;
+}
@@ -2,8 +2,12 @@ import axios from 'axios';
 import { EmbedBuilder } from 'discord.js';
 import { Logger } from './logger';
 import { AppError } from './errorHandler';
+import { Network } from './userSettings';
+import { getApiBaseUrl, getExplorerTxUrl } from './networkConfig';
+import { DeployParameters } from './deployToken';
+import { formatAmount, formatPercentage, sumAmounts } from './amount';
 
-interface TokenInfo {
+export interface TokenInfo {
     tick: string;
     max: string;
     lim: string;
@@ -22,38 +26,8 @@ interface TokenInfo {
     holder: { address: string; amount: string }[];
 }
 
-function formatNumber(num: string, decimals: number): string {
-    const parsedNum = BigInt(num);
-    const divisor = BigInt(10 ** decimals);
-    const integerPart = parsedNum / divisor;
-    const fractionalPart = parsedNum % divisor;
-
-    let formattedNum = integerPart.toLocaleString('en-US');
-
-    if (fractionalPart > 0) {
-        const fractionalStr = fractionalPart.toString().padStart(decimals, '0');
-        const trimmedFractionalStr = fractionalStr.replace(/0+$/, '');
-        if (trimmedFractionalStr.length > 0) {
-            formattedNum += '.' + trimmedFractionalStr;
-        }
-    }
-
-    return formattedNum;
-}
-
-function formatNumberWithoutDecimals(num: string): string {
-    return BigInt(num).toLocaleString('en-US');
-}
-
-function calculatePercentage(part: bigint, whole: bigint): string {
-    return ((Number(part) / Number(whole)) * 100).toFixed(2) + '%';
-}
-
-async function fetchTokenInfo(ticker: string): Promise<TokenInfo> {
-    const apiBaseUrl = process.env.MAINNET_API_BASE_URL;
-    if (!apiBaseUrl) {
-        throw new AppError('Invalid Configuration', 'API base URL not found for Mainnet', 'INVALID_CONFIGURATION');
-    }
+export async function fetchTokenInfo(ticker: string, network: Network): Promise<TokenInfo> {
+    const apiBaseUrl = getApiBaseUrl(network);
 
     const url = `${apiBaseUrl}/token/${ticker}`;
     try {
@@ -65,7 +39,7 @@ async function fetchTokenInfo(ticker: string): Promise<TokenInfo> {
     }
 }
 
-function createTokenInfoEmbed(tokenInfo: TokenInfo): EmbedBuilder {
+export function createTokenInfoEmbed(tokenInfo: TokenInfo, network: Network, preview: boolean = false): EmbedBuilder {
     const state = tokenInfo.state.toLowerCase();
 
     if (state === 'unused' || state === 'ignored') {
@@ -74,8 +48,10 @@ function createTokenInfoEmbed(tokenInfo: TokenInfo): EmbedBuilder {
             .setTitle(`${tokenInfo.tick} Token Information`)
             .setTimestamp();
 
+        const networkSuffix = network === 'Mainnet' ? '' : ` on ${network}`;
+
         if (state === 'unused') {
-            embed.setDescription(`${tokenInfo.tick} has not been deployed as a KRC20 Token on Kasplex yet, I have no information to provide. Please try another ticker.`);
+            embed.setDescription(`${tokenInfo.tick} has not been deployed as a KRC20 Token on Kasplex${networkSuffix} yet, I have no information to provide. Please try another ticker.`);
         } else if (state === 'ignored') {
             embed.setDescription(`${tokenInfo.tick} is an ignored ticker on Kasplex and cannot be deployed as a KRC20 token, I have no information to provide. Please try another ticker.`);
         }
@@ -98,52 +74,63 @@ function createTokenInfoEmbed(tokenInfo: TokenInfo): EmbedBuilder {
     const deploymentDate = new Date(parseInt(tokenInfo.mtsAdd)).toUTCString();
     const launchStatus = tokenInfo.pre === '0' ? '🚀  Fair Launch' : '⚠️  Has Pre-Mint';
 
+    const statusLine = preview
+        ? 'Deployment preview, nothing has been submitted yet'
+        : `${tokenInfo.state.charAt(0).toUpperCase() + tokenInfo.state.slice(1)} on ${deploymentDate}`;
+
     const embed = new EmbedBuilder()
         .setColor(tokenInfo.pre === '0' ? 0x00FF00 : 0xFFA500)
-        .setTitle(`${tokenInfo.tick} Token Information`)
-        .setDescription(`${launchStatus}\n\n${tokenInfo.state.charAt(0).toUpperCase() + tokenInfo.state.slice(1)} on ${deploymentDate}`)
+        .setTitle(preview ? `${tokenInfo.tick} Deployment Preview` : `${tokenInfo.tick} Token Information`)
+        .setDescription(`${launchStatus}\n\n${statusLine}`)
         .addFields(
-            { name: 'Maximum Supply', value: formatNumber(tokenInfo.max, decimals), inline: true },
-            { name: 'Completed Mints', value: formatNumberWithoutDecimals(tokenInfo.mintTotal), inline: true },
-            { name: 'Tokens Per Mint', value: formatNumber(tokenInfo.lim, decimals), inline: true },
-            { name: 'Minted', value: `${formatNumber(tokenInfo.minted, decimals)} (${calculatePercentage(minted, maxSupply)})`, inline: true },
-            { name: 'Mint Remaining', value: `${formatNumber(remaining.toString(), decimals)} (${calculatePercentage(remaining, maxSupply)})`, inline: true }
+            { name: 'Maximum Supply', value: formatAmount(tokenInfo.max, decimals), inline: true },
+            { name: 'Completed Mints', value: formatAmount(tokenInfo.mintTotal, 0), inline: true },
+            { name: 'Tokens Per Mint', value: formatAmount(tokenInfo.lim, decimals), inline: true },
+            { name: 'Minted', value: `${formatAmount(tokenInfo.minted, decimals)} (${formatPercentage(minted, maxSupply)})`, inline: true },
+            { name: 'Mint Remaining', value: `${formatAmount(remaining, decimals)} (${formatPercentage(remaining, maxSupply)})`, inline: true }
         );
 
     if (tokenInfo.pre !== '0') {
         embed.addFields(
-            { name: 'Pre-Minted', value: `${formatNumber(tokenInfo.pre, decimals)} (${calculatePercentage(preMint, maxSupply)})`, inline: true }
+            { name: 'Pre-Minted', value: `${formatAmount(tokenInfo.pre, decimals)} (${formatPercentage(preMint, maxSupply)})`, inline: true }
         );
     }
 
-    // Add top holders information
-    const topHolders = tokenInfo.holder;
-    const getTopHoldersInfo = (count: number) => {
-        const holders = topHolders.slice(0, count);
-        const total = holders.reduce((sum, holder) => sum + BigInt(holder.amount), BigInt(0));
-        return {
-            total,
-            percentage: calculatePercentage(total, minted)
+    // Holders and the reveal transaction only exist once the token is on chain
+    if (!preview) {
+        // Add top holders information
+        const topHolders = tokenInfo.holder;
+        const getTopHoldersInfo = (count: number) => {
+            const holders = topHolders.slice(0, count);
+            const total = sumAmounts(holders.map(holder => BigInt(holder.amount)));
+            return {
+                total,
+                percentage: formatPercentage(total, minted)
+            };
         };
-    };
-
-    const top1 = getTopHoldersInfo(1);
-    const top5 = getTopHoldersInfo(5);
-    const top10 = getTopHoldersInfo(10);
-    const top20 = getTopHoldersInfo(20);
-
-    embed.addFields(
-        { name: 'Top Holder', value: `${formatNumber(top1.total.toString(), decimals)} (${top1.percentage})`, inline: true },
-        { name: 'Top 5 Holders', value: `${formatNumber(top5.total.toString(), decimals)} (${top5.percentage})`, inline: true },
-        { name: 'Top 10 Holders', value: `${formatNumber(top10.total.toString(), decimals)} (${top10.percentage})`, inline: true },
-        { name: 'Top 20 Holders', value: `${formatNumber(top20.total.toString(), decimals)} (${top20.percentage})`, inline: true }
-    );
-
-    // Add a field with a clickable link to the explorer
-    const explorerUrl = getExplorerUrl(tokenInfo.hashRev);
-    embed.addFields(
-        { name: 'Reveal Transaction', value: `[${tokenInfo.hashRev}](${explorerUrl})`, inline: false }
-    );
+
+        const top1 = getTopHoldersInfo(1);
+        const top5 = getTopHoldersInfo(5);
+        const top10 = getTopHoldersInfo(10);
+        const top20 = getTopHoldersInfo(20);
+
+        embed.addFields(
+            { name: 'Top Holder', value: `${formatAmount(top1.total, decimals)} (${top1.percentage})`, inline: true },
+            { name: 'Top 5 Holders', value: `${formatAmount(top5.total, decimals)} (${top5.percentage})`, inline: true },
+            { name: 'Top 10 Holders', value: `${formatAmount(top10.total, decimals)} (${top10.percentage})`, inline: true },
+            { name: 'Top 20 Holders', value: `${formatAmount(top20.total, decimals)} (${top20.percentage})`, inline: true }
+        );
+
+        // Add a field with a clickable link to the explorer
+        const explorerUrl = getExplorerTxUrl(network, tokenInfo.hashRev);
+        embed.addFields(
+            { name: 'Reveal Transaction', value: `[${tokenInfo.hashRev}](${explorerUrl})`, inline: false }
+        );
+    }
+
+    if (network !== 'Mainnet') {
+        embed.addFields({ name: 'Network', value: network, inline: false });
+    }
 
     // Set a non-clickable footer
     embed.setFooter({ text: 'Built with ❤️ by the Nacho the 𐤊at Community', iconURL: 'https://media.discordapp.net/attachments/1262092990273294458/1278406148235460709/NACHO_best_final.png?ex=66d0b001&is=66cf5e81&hm=0b93b66600c0b2f4b1146bedca819ef85c198f4a5dc9999ec1842d22cecf0c94&=&format=webp&quality=lossless' });
@@ -151,12 +138,107 @@ function createTokenInfoEmbed(tokenInfo: TokenInfo): EmbedBuilder {
     return embed;
 }
 
-// Update the getExplorerUrl function to always use Mainnet
-function getExplorerUrl(txHash: string): string {
-    return `https://explorer.kaspa.org/txs/${txHash}`;
+const TICKER_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+const TICKER_LIST_MAX_PAGES = 10;
+// Autocomplete must answer within 3 seconds, so it never waits for more than one page
+const TICKER_PAGE_TIMEOUT = 2000;
+const tickerCache = new Map<Network, { tickers: string[]; fetchedAt: number }>();
+const tickerRefreshes = new Map<Network, Promise<string[]>>();
+
+async function fetchTickerPage(network: Network, next?: string, timeout?: number): Promise<{ tickers: string[]; next?: string }> {
+    const response = await axios.get(`${getApiBaseUrl(network)}/tokenlist`, { params: next ? { next } : {}, timeout });
+    const result: { tick: string }[] = response.data.result || [];
+    return { tickers: result.map(token => token.tick.toUpperCase()), next: result.length > 0 ? response.data.next : undefined };
+}
+
+/** Pages through the full ticker list; concurrent callers share one refresh. */
+function refreshTickers(network: Network): Promise<string[]> {
+    const running = tickerRefreshes.get(network);
+    if (running) {
+        return running;
+    }
+
+    const refresh = (async () => {
+        const tickers: string[] = [];
+        let next: string | undefined;
+        for (let page = 0; page < TICKER_LIST_MAX_PAGES; page++) {
+            const result = await fetchTickerPage(network, next);
+            tickers.push(...result.tickers);
+            next = result.next;
+            if (!next) break;
+        }
+        tickerCache.set(network, { tickers, fetchedAt: Date.now() });
+        return tickers;
+    })().finally(() => tickerRefreshes.delete(network));
+
+    tickerRefreshes.set(network, refresh);
+    return refresh;
+}
+
+const refreshInBackground = (network: Network) => {
+    refreshTickers(network).catch(error => Logger.warn(`Failed to refresh the ${network} ticker list: ${error}`));
+};
+
+/** Fills the ticker cache ahead of the first autocomplete. */
+export function warmTickerCache(networks: Network[] = ['Mainnet', 'Testnet-10', 'Testnet-11']): void {
+    networks.forEach(refreshInBackground);
+}
+
+/**
+ * Serves the cached list, refreshing it in the background once stale. With
+ * nothing cached yet, only the first page is awaited.
+ */
+async function fetchDeployedTickers(network: Network): Promise<string[]> {
+    const cached = tickerCache.get(network);
+    if (cached) {
+        if (Date.now() - cached.fetchedAt >= TICKER_CACHE_TTL) {
+            refreshInBackground(network);
+        }
+        return cached.tickers;
+    }
+
+    refreshInBackground(network);
+    return (await fetchTickerPage(network, undefined, TICKER_PAGE_TIMEOUT)).tickers;
+}
+
+export async function searchTickers(query: string, network: Network = 'Mainnet', limit: number = 25): Promise<string[]> {
+    const normalized = query.trim().toUpperCase();
+    try {
+        const tickers = await fetchDeployedTickers(network);
+        return tickers.filter(tick => tick.startsWith(normalized)).slice(0, limit);
+    } catch (error) {
+        Logger.warn(`Failed to fetch ticker list for autocomplete: ${error}`);
+        return [];
+    }
+}
+
+/**
+ * Renders deploy parameters with the same layout as a live token so users
+ * see exactly what `/status` will show once the deploy is indexed.
+ */
+export function createDeployPreviewEmbed(params: DeployParameters, network: Network): EmbedBuilder {
+    const pre = (params.preMint ?? 0n).toString();
+    return createTokenInfoEmbed({
+        tick: params.ticker,
+        max: params.max.toString(),
+        lim: params.lim.toString(),
+        pre,
+        to: params.to ?? '',
+        dec: params.decimals.toString(),
+        minted: pre,
+        opScoreAdd: '0',
+        opScoreMod: '0',
+        state: 'deployed',
+        hashRev: '',
+        mtsAdd: Date.now().toString(),
+        holderTotal: '0',
+        transferTotal: '0',
+        mintTotal: '0',
+        holder: []
+    }, network, true);
 }
 
-export async function getTokenInfo(ticker: string): Promise<EmbedBuilder> {
-    const tokenInfo = await fetchTokenInfo(ticker);
-    return createTokenInfoEmbed(tokenInfo);
+export async function getTokenInfo(ticker: string, network: Network = 'Mainnet'): Promise<EmbedBuilder> {
+    const tokenInfo = await fetchTokenInfo(ticker, network);
+    return createTokenInfoEmbed(tokenInfo, network);
 }
\ No newline at end of file
@@ -0,0 +1,152 @@
+import axios from 'axios';
+import { Network } from './userSettings';
+import { getApiBaseUrl, getKaspaApiBaseUrl } from './networkConfig';
+import { retryableRequest, handleNetworkError } from './networkUtils';
+import { Logger } from './logger';
+
+const KAS_DECIMALS = 8;
+const HISTORY_FETCH_LIMIT = 50;
+
+export type HistoryStatus = 'accepted' | 'failed' | 'pending';
+
+export interface HistoryEntry {
+    kind: 'KAS' | 'KRC20';
+    txId: string;
+    timestamp: number;
+    ticker: string;
+    operation: string;
+    direction: 'in' | 'out' | 'self';
+    /** Signed amount in the asset's smallest unit, from the wallet's point of view */
+    amount: bigint;
+    decimals: number;
+    status: HistoryStatus;
+}
+
+interface KaspaApiTransaction {
+    transaction_id: string;
+    block_time: number;
+    is_accepted: boolean;
+    inputs: { previous_outpoint_hash: string; previous_outpoint_address: string; previous_outpoint_amount: number }[] | null;
+    outputs: { script_public_key_address: string; amount: number }[] | null;
+}
+
+interface KasplexOperation {
+    op: string;
+    tick: string;
+    amt?: string;
+    from: string;
+    to: string;
+    opAccept: string;
+    opError?: string;
+    hashRev: string;
+    mtsAdd: string;
+}
+
+async function fetchKasTransactions(address: string, network: Network): Promise<HistoryEntry[]> {
+    const url = `${getKaspaApiBaseUrl(network)}/addresses/${address}/full-transactions`;
+    const response = await axios.get<KaspaApiTransaction[]>(url, {
+        params: { limit: HISTORY_FETCH_LIMIT, offset: 0, resolve_previous_outpoints: 'light' }
+    });
+
+    return response.data.map(tx => {
+        const spent = (tx.inputs ?? [])
+            .filter(input => input.previous_outpoint_address === address)
+            .reduce((sum, input) => sum + BigInt(input.previous_outpoint_amount), 0n);
+        const received = (tx.outputs ?? [])
+            .filter(output => output.script_public_key_address === address)
+            .reduce((sum, output) => sum + BigInt(output.amount), 0n);
+        const net = received - spent;
+
+        return {
+            kind: 'KAS' as const,
+            txId: tx.transaction_id,
+            timestamp: tx.block_time,
+            ticker: 'KAS',
+            operation: 'transfer',
+            direction: net > 0n ? 'in' as const : net < 0n ? 'out' as const : 'self' as const,
+            amount: net,
+            decimals: KAS_DECIMALS,
+            status: tx.is_accepted ? 'accepted' as const : 'pending' as const
+        };
+    });
+}
+
+async function fetchKrc20Operations(address: string, network: Network, decimalsByTicker: Map<string, number>): Promise<HistoryEntry[]> {
+    const url = `${getApiBaseUrl(network)}/oplist`;
+    const response = await axios.get(url, { params: { address } });
+    const operations: KasplexOperation[] = response.data.result || [];
+
+    return operations.map(op => {
+        const ticker = op.tick.toUpperCase();
+        const amount = BigInt(op.amt ?? '0');
+        const incoming = op.to === address && op.from !== address;
+        const outgoing = op.op === 'transfer' && op.from === address && op.to !== address;
+
+        return {
+            kind: 'KRC20' as const,
+            txId: op.hashRev,
+            timestamp: parseInt(op.mtsAdd, 10),
+            ticker,
+            operation: op.op,
+            direction: outgoing ? 'out' as const : incoming || op.op === 'mint' ? 'in' as const : 'self' as const,
+            amount: outgoing ? -amount : amount,
+            decimals: decimalsByTicker.get(ticker) ?? KAS_DECIMALS,
+            // Kasplex reports 1 for accepted and -1 for failed operations
+            status: op.opAccept === '1' ? 'accepted' as const : op.opAccept === '-1' ? 'failed' as const : 'pending' as const
+        };
+    });
+}
+
+/**
+ * Merges KAS transfers from the Kaspa REST API with KRC20 operations from the
+ * Kasplex indexer, newest first. Either source failing only drops its half.
+ */
+export async function getTransactionHistory(address: string, network: Network, decimalsByTicker: Map<string, number>): Promise<HistoryEntry[]> {
+    Logger.info(`Fetching transaction history for ${address} on ${network}`);
+
+    try {
+        return await retryableRequest(async () => {
+            const [kasResult, krc20Result] = await Promise.allSettled([
+                fetchKasTransactions(address, network),
+                fetchKrc20Operations(address, network, decimalsByTicker)
+            ]);
+
+            if (kasResult.status === 'rejected') {
+                Logger.error(`Failed to fetch KAS transactions: ${kasResult.reason}`);
+            }
+            if (krc20Result.status === 'rejected') {
+                Logger.error(`Failed to fetch KRC20 operations: ${krc20Result.reason}`);
+            }
+            if (kasResult.status === 'rejected' && krc20Result.status === 'rejected') {
+                throw kasResult.reason;
+            }
+
+            const entries = [
+                ...(kasResult.status === 'fulfilled' ? kasResult.value : []),
+                ...(krc20Result.status === 'fulfilled' ? krc20Result.value : [])
+            ];
+            return entries.sort((a, b) => b.timestamp - a.timestamp);
+        }, 'Error fetching transaction history');
+    } catch (error) {
+        throw handleNetworkError(error, 'fetching transaction history');
+    }
+}
+
+/**
+ * The outputs a transaction spent, as the address and transaction that
+ * created each. Empty when the Kaspa REST API has not indexed it yet.
+ */
+export async function fetchTransactionInputs(txId: string, network: Network): Promise<{ address: string; txId: string }[]> {
+    const url = `${getKaspaApiBaseUrl(network)}/transactions/${txId}`;
+    const response = await axios.get<KaspaApiTransaction>(url, { params: { resolve_previous_outpoints: 'light' } });
+    return (response.data.inputs ?? []).map(input => ({ address: input.previous_outpoint_address, txId: input.previous_outpoint_hash }));
+}
+
+/**
+ * The addresses a transaction spent from, according to the Kaspa REST API.
+ * Empty when the API has not indexed the transaction yet.
+ */
+export async function fetchTransactionSenders(txId: string, network: Network): Promise<string[]> {
+    const inputs = await fetchTransactionInputs(txId, network);
+    return [...new Set(inputs.map(input => input.address).filter(Boolean))];
+}
@@ -0,0 +1,284 @@
+import axios from 'axios';
+import { Message } from 'discord.js';
+import { Network } from './userSettings';
+import { getRpcClient } from './rpcConnection';
+import { getApiBaseUrl, getExplorerTxUrl, getKaspaApiBaseUrl } from './networkConfig';
+import { Logger } from './logger';
+import { AppError } from './errorHandler';
+
+// One shared connection per network polls every tracked transaction, so tracking outlives wallet sessions
+const TRACKER_CLIENT_ID = 'tx-tracker';
+export const TARGET_CONFIRMATIONS = parseInt(process.env.TX_CONFIRMATIONS || '10', 10);
+const POLL_INTERVAL = 2000;
+const EDIT_INTERVAL = 3000;
+const ACCEPTANCE_TIMEOUT = 3 * 60 * 1000;
+const INDEXER_TIMEOUT = 5 * 60 * 1000;
+// How long a transaction may be missing from both the mempool and the DAG before it counts as dropped
+const DROP_GRACE = 60 * 1000;
+
+export type TrackingState = 'submitted' | 'orphan' | 'accepted' | 'confirmed' | 'rejected' | 'timeout';
+
+export interface TrackedTransaction {
+    txId: string;
+    network: Network;
+    state: TrackingState;
+    confirmations: number;
+    /** Kasplex's verdict on a KRC-20 reveal; only set when tracking one. */
+    krc20Status?: 'pending' | 'accepted' | 'failed';
+    error?: string;
+}
+
+export interface TrackingOptions {
+    /** The transaction is a KRC-20 reveal, so wait for the Kasplex indexer too. */
+    krc20?: boolean;
+}
+
+interface DagLookup {
+    known: boolean;
+    acceptingBlueScore?: bigint;
+}
+
+const REJECTION_MESSAGES: [RegExp, string][] = [
+    [/already spent|double.?spend/i, 'The node rejected the transaction as a double spend: its inputs were already spent by another transaction. Wait for your balance to settle and try again.'],
+    [/orphan/i, 'The node rejected the transaction as an orphan: one of its inputs comes from a transaction it has not seen yet. Wait a moment and try again.'],
+    [/already in the mempool|already accepted/i, 'This transaction was already submitted.'],
+    [/insufficient.*fee|fee.*too low/i, 'The node rejected the transaction because its fee is too low. Try again with a higher priority fee.']
+];
+
+/**
+ * Turns a node's rejection of a submitted transaction into a readable error,
+ * or undefined when the error is not a known rejection.
+ */
+export function describeSubmitRejection(error: unknown): AppError | undefined {
+    const message = String(error instanceof Error ? error.message : error);
+    const match = REJECTION_MESSAGES.find(([pattern]) => pattern.test(message));
+    return match && new AppError('Transaction Rejected', match[1], 'TRANSACTION_REJECTED');
+}
+
+const isTerminal = (status: TrackedTransaction) => ['confirmed', 'rejected', 'timeout'].includes(status.state);
+
+/**
+ * Whether the Kaspa REST API has seen the transaction in a block, and the
+ * blue score of the block that accepted it. Undefined when the API is down.
+ */
+const lookupInDag = async (network: Network, txId: string): Promise<DagLookup | undefined> => {
+    try {
+        const response = await axios.get(`${getKaspaApiBaseUrl(network)}/transactions/${txId}`, {
+            params: { inputs: false, outputs: false },
+            timeout: 10000
+        });
+        const { is_accepted, accepting_block_blue_score } = response.data;
+        return {
+            known: true,
+            acceptingBlueScore: is_accepted && accepting_block_blue_score ? BigInt(accepting_block_blue_score) : undefined
+        };
+    } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 404) {
+            return { known: false };
+        }
+        Logger.debug(`Failed to look up transaction ${txId}: ${error}`);
+        return undefined;
+    }
+};
+
+const getMempoolState = async (network: Network, txId: string): Promise<'pool' | 'orphan' | 'missing' | undefined> => {
+    try {
+        const rpc = await getRpcClient(TRACKER_CLIENT_ID, network);
+        const { mempoolEntry } = await rpc.getMempoolEntry({ transactionId: txId, includeOrphanPool: true, filterTransactionPool: false });
+        return mempoolEntry?.isOrphan ? 'orphan' : 'pool';
+    } catch (error) {
+        if (/not found/i.test(String(error))) {
+            return 'missing';
+        }
+        Logger.debug(`Failed to query mempool for ${txId}: ${error}`);
+        return undefined;
+    }
+};
+
+const getSinkBlueScore = async (network: Network): Promise<bigint> => {
+    const rpc = await getRpcClient(TRACKER_CLIENT_ID, network);
+    const { blueScore } = await rpc.getSinkBlueScore();
+    return BigInt(blueScore);
+};
+
+// Kasplex reports 1 for accepted and -1 for failed operations
+const getKrc20Result = async (network: Network, txId: string): Promise<{ status: 'pending' | 'accepted' | 'failed'; error?: string }> => {
+    try {
+        const response = await axios.get(`${getApiBaseUrl(network)}/op/${txId}`, { timeout: 10000 });
+        const op = response.data.result?.[0];
+        if (op?.opAccept === '1') {
+            return { status: 'accepted' };
+        }
+        if (op?.opAccept === '-1') {
+            return { status: 'failed', error: op.opError };
+        }
+    } catch (error) {
+        Logger.debug(`Failed to fetch KRC-20 operation ${txId}: ${error}`);
+    }
+    return { status: 'pending' };
+};
+
+/**
+ * Follows a submitted transaction until it has TARGET_CONFIRMATIONS (and, for
+ * KRC-20 reveals, a Kasplex verdict), was rejected, or timed out. `onUpdate`
+ * is called whenever the status changes, including the final one.
+ */
+export async function trackTransaction(network: Network, txId: string, onUpdate: (status: TrackedTransaction) => Promise<void> | void, options: TrackingOptions = {}): Promise<TrackedTransaction> {
+    const status: TrackedTransaction = {
+        txId,
+        network,
+        state: 'submitted',
+        confirmations: 0,
+        krc20Status: options.krc20 ? 'pending' : undefined
+    };
+    const startedAt = Date.now();
+    let acceptedAt: number | undefined;
+    let acceptingBlueScore: bigint | undefined;
+    let missingSince: number | undefined;
+    let lastReported = '';
+
+    while (!isTerminal(status)) {
+        const now = Date.now();
+
+        if (acceptingBlueScore === undefined) {
+            const dag = await lookupInDag(network, txId);
+            if (dag?.acceptingBlueScore !== undefined) {
+                acceptingBlueScore = dag.acceptingBlueScore;
+                acceptedAt = now;
+                status.state = 'accepted';
+            } else {
+                const mempool = await getMempoolState(network, txId);
+                if (mempool === 'pool' || mempool === 'orphan') {
+                    missingSince = undefined;
+                    status.state = mempool === 'orphan' ? 'orphan' : 'submitted';
+                } else if (mempool === 'missing' && dag) {
+                    missingSince ??= now;
+                    if (now - missingSince > DROP_GRACE) {
+                        status.state = 'rejected';
+                        status.error = dag.known
+                            ? 'It was included in a block but never accepted, because a conflicting transaction spending the same inputs was accepted instead (double spend).'
+                            : 'It was dropped from the mempool without reaching the DAG. Its inputs were most likely spent by another transaction (double spend).';
+                    }
+                }
+                if (status.state !== 'rejected' && now - startedAt > ACCEPTANCE_TIMEOUT) {
+                    status.error = status.state === 'orphan' ? 'It is still an orphan waiting for its parent transaction.' : undefined;
+                    status.state = 'timeout';
+                }
+            }
+        }
+
+        if (acceptingBlueScore !== undefined) {
+            const sinkBlueScore = await getSinkBlueScore(network).catch(() => undefined);
+            if (sinkBlueScore !== undefined) {
+                status.confirmations = Math.max(status.confirmations, Number(sinkBlueScore - acceptingBlueScore));
+            }
+
+            if (status.krc20Status === 'pending') {
+                const result = await getKrc20Result(network, txId);
+                status.krc20Status = result.status;
+                status.error = result.error;
+            }
+
+            if (status.confirmations >= TARGET_CONFIRMATIONS && status.krc20Status === 'failed') {
+                status.state = 'rejected';
+            } else if (status.confirmations >= TARGET_CONFIRMATIONS && status.krc20Status !== 'pending') {
+                status.state = 'confirmed';
+            } else if (now - acceptedAt! > INDEXER_TIMEOUT) {
+                status.state = 'timeout';
+            }
+        }
+
+        const report = JSON.stringify({ ...status });
+        if (report !== lastReported) {
+            lastReported = report;
+            await onUpdate({ ...status });
+        }
+        if (!isTerminal(status)) {
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+        }
+    }
+
+    Logger.info(`Stopped tracking ${txId}: ${status.state} with ${status.confirmations} confirmations`);
+    return status;
+}
+
+export function formatTrackingStatus(status: TrackedTransaction): string {
+    const lines: string[] = [];
+    switch (status.state) {
+        case 'submitted':
+            lines.push('⏳ Submitted, waiting for the DAG to accept it...');
+            break;
+        case 'orphan':
+            lines.push('⏳ Submitted as an orphan, waiting for its parent transaction to be accepted...');
+            break;
+        case 'accepted':
+            lines.push(`🔄 Accepted: ${Math.min(status.confirmations, TARGET_CONFIRMATIONS)}/${TARGET_CONFIRMATIONS} confirmations`);
+            break;
+        case 'confirmed':
+            lines.push(`✅ Confirmed: ${status.confirmations} confirmations`);
+            break;
+        case 'rejected':
+            lines.push(status.krc20Status === 'failed'
+                ? `❌ The transaction was confirmed, but the Kasplex indexer rejected the operation${status.error ? `: ${status.error}` : '.'}`
+                : `❌ Rejected. ${status.error ?? ''}`.trim());
+            break;
+        case 'timeout':
+            lines.push(status.confirmations > 0
+                ? `⌛ Accepted with ${status.confirmations} confirmations, but ${status.krc20Status === 'pending' ? 'the Kasplex indexer has not processed it yet' : 'confirmations stopped updating'}. Check the explorer later.`
+                : `⌛ Not accepted within ${ACCEPTANCE_TIMEOUT / 60000} minutes. It may still be accepted later, so check the explorer before retrying. ${status.error ?? ''}`.trim());
+            break;
+    }
+
+    if (status.krc20Status && ['accepted', 'confirmed'].includes(status.state)) {
+        lines.push(status.krc20Status === 'accepted' ? 'KRC-20: ✅ accepted by the Kasplex indexer' : 'KRC-20: ⏳ waiting for the Kasplex indexer...');
+    }
+    lines.push(`Explorer: ${getExplorerTxUrl(status.network, status.txId)}`);
+    return lines.join('\n');
+}
+
+/**
+ * Tracks `txId` and keeps `message` edited with its status under `title`.
+ * Edits are spaced out to stay clear of Discord's rate limits; the final
+ * status is always shown.
+ */
+export async function trackTransactionInMessage(message: Message, title: string, network: Network, txId: string, options: TrackingOptions & { footer?: string } = {}): Promise<TrackedTransaction> {
+    let lastEdit = 0;
+    const render = (status: TrackedTransaction) => [title, formatTrackingStatus(status), options.footer].filter(Boolean).join('\n');
+
+    return trackTransaction(network, txId, async status => {
+        if (isTerminal(status) || Date.now() - lastEdit >= EDIT_INTERVAL) {
+            lastEdit = Date.now();
+            await message.edit(render(status)).catch(error => Logger.warn(`Failed to update status of ${txId}: ${error}`));
+        }
+    }, options);
+}
+
+// Tracking runs in the background so the caller stays usable while the status message updates
+export const startTracking = (message: Message, title: string, network: Network, txId: string, options: TrackingOptions & { footer?: string } = {}) => {
+    trackTransactionInMessage(message, title, network, txId, options)
+        .catch(error => Logger.error(`Failed to track transaction ${txId}: ${error}`));
+};
+
+/**
+ * Tracks several transactions one after another in the background, keeping
+ * `message` edited with how many have confirmed and listing any that did not.
+ */
+export const startTrackingBatch = (message: Message, title: string, network: Network, txIds: string[], options: TrackingOptions = {}) => {
+    const track = async () => {
+        const unconfirmed: TrackedTransaction[] = [];
+        for (const [index, txId] of txIds.entries()) {
+            await message.edit(`${title}\n⏳ Waiting for confirmations: ${index}/${txIds.length} done...`)
+                .catch(error => Logger.warn(`Failed to update status of ${txId}: ${error}`));
+            const status = await trackTransaction(network, txId, () => undefined, options);
+            if (status.state !== 'confirmed') {
+                unconfirmed.push(status);
+            }
+        }
+
+        const lines = unconfirmed.length === 0
+            ? [`✅ All ${txIds.length} transaction(s) confirmed.`]
+            : [`⚠️ ${txIds.length - unconfirmed.length}/${txIds.length} confirmed. Not confirmed:`, ...unconfirmed.map(status => formatTrackingStatus(status).replace(/\n/g, ' '))];
+        await message.edit([title, ...lines].join('\n').slice(0, 2000));
+    };
+    track().catch(error => Logger.error(`Failed to track ${txIds.length} transactions: ${error}`));
+};
@@ -0,0 +1,30 @@
+import { Network } from './userSettings';
+import { submitInscription, estimateInscriptionCost, InscriptionResult } from './krc20Inscription';
+import { withSpendingLimit } from './spendingLimits';
+import { Logger } from './logger';
+import { AppError } from './errorHandler';
+
+/**
+ * Transfers `amount` (in the token's smallest unit) of a KRC-20 token to
+ * `destinationAddress`.
+ */
+export const transferToken = async (userId: string, network: Network, ticker: string, amount: bigint, destinationAddress: string, privateKeyString: string): Promise<InscriptionResult> => {
+    Logger.info(`Starting token transfer of ${amount} ${ticker} for user: ${userId} to ${destinationAddress}`);
+
+    try {
+        const spend = { kind: 'transfer' as const, amount: estimateInscriptionCost().fees, destinations: [destinationAddress] };
+        return await withSpendingLimit(userId, spend, () => submitInscription(userId, network, {
+            "p": "krc-20",
+            "op": "transfer",
+            "tick": ticker,
+            "amt": amount.toString(),
+            "to": destinationAddress
+        }, privateKeyString));
+    } catch (error) {
+        Logger.error(`Error during token transfer: ${error}`);
+        if (error instanceof AppError) {
+            throw error;
+        }
+        throw new AppError('Transfer Error', `Error during token transfer: ${error}`, 'TRANSFER_ERROR');
+    }
+};
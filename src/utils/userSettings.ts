@@ -2,10 +2,28 @@ import { NetworkType } from '../../wasm/kaspa/kaspa';
 
 export type Network = 'Mainnet' | 'Testnet-10' | 'Testnet-11';
 
+export interface HdAccount {
+    index: number;
+    receiveCount: number;
+    changeCount: number;
+}
+
+/**
+ * Present for wallets created or imported from a seed phrase. `address` and
+ * `privateKey` on the session stay the primary receive key, which is what
+ * KRC20 inscriptions are signed with.
+ */
+export interface HdWalletState {
+    xprv: string;
+    activeAccount: number;
+    accounts: HdAccount[];
+}
+
 export interface UserSession {
     network: Network;
     privateKey?: string;
     address?: string;
+    hd?: HdWalletState;
     lastActivity: number;
 }
 
@@ -0,0 +1,157 @@
+import { DMChannel, Message, TextBasedChannel } from 'discord.js';
+import { userSettings } from './userSettings';
+import { teardownRpcClient } from './rpcConnection';
+import { Logger } from './logger';
+
+export enum WalletState {
+    IDLE,
+    NETWORK_SELECTION,
+    WALLET_OPTIONS,
+    WALLET_ACTIONS,
+    SENDING_KASPA,
+    CHECKING_BALANCE,
+    VIEWING_HISTORY,
+    IMPORTING_WALLET,
+    SENDING_TOKEN,
+    DEPLOYING_TOKEN,
+    MINTING_TOKEN,
+    VAULT_PROMPT
+}
+
+export const SESSION_TIMEOUT = 5 * 60 * 1000; // 5 minutes of inactivity
+
+interface StoppableCollector {
+    stop(reason?: string): void;
+}
+
+export class WalletSession {
+    state: WalletState = WalletState.IDLE;
+    menuMessage: Message | null = null;
+    private collectors = new Set<StoppableCollector>();
+    private idleTimer: NodeJS.Timeout | null = null;
+    private readonly createdAt = Date.now();
+
+    constructor(
+        readonly userId: string,
+        readonly channel: DMChannel | TextBasedChannel,
+        private readonly onExpire: (session: WalletSession) => Promise<void>
+    ) {
+        this.scheduleIdleCheck(SESSION_TIMEOUT);
+    }
+
+    /**
+     * Records user activity on the underlying UserSession. The idle timer reads
+     * `lastActivity` when it fires, so touching never needs to reset it.
+     */
+    touch(): void {
+        const userSession = userSettings.get(this.userId);
+        if (userSession) {
+            userSession.lastActivity = Date.now();
+        }
+    }
+
+    trackCollector(collector: StoppableCollector): void {
+        this.collectors.add(collector);
+    }
+
+    untrackCollector(collector: StoppableCollector): void {
+        this.collectors.delete(collector);
+    }
+
+    async replaceMenuMessage(message: Message | null): Promise<void> {
+        if (this.menuMessage && this.menuMessage.id !== message?.id) {
+            await this.menuMessage.delete().catch(error => Logger.warn(`Failed to delete previous Wallet Actions message: ${error}`));
+        }
+        this.menuMessage = message;
+    }
+
+    /**
+     * Stops collectors, removes the menu, wipes the private key and tears down
+     * the user's RPC client. Safe to call more than once.
+     */
+    async destroy(): Promise<void> {
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = null;
+        }
+
+        this.collectors.forEach(collector => collector.stop('session_ended'));
+        this.collectors.clear();
+        await this.replaceMenuMessage(null);
+
+        const userSession = userSettings.get(this.userId);
+        if (userSession) {
+            userSession.privateKey = undefined;
+            userSettings.delete(this.userId);
+            await teardownRpcClient(this.userId, userSession.network)
+                .catch(error => Logger.error(`Failed to tear down RPC client for ${this.userId}: ${error}`));
+        }
+        this.state = WalletState.IDLE;
+    }
+
+    private scheduleIdleCheck(delay: number): void {
+        this.idleTimer = setTimeout(() => this.checkIdle(), delay);
+    }
+
+    private async checkIdle(): Promise<void> {
+        const lastActivity = userSettings.get(this.userId)?.lastActivity ?? this.createdAt;
+        const idleFor = Date.now() - lastActivity;
+        if (idleFor < SESSION_TIMEOUT) {
+            this.scheduleIdleCheck(SESSION_TIMEOUT - idleFor);
+            return;
+        }
+
+        Logger.info(`Wallet session expired for user: ${this.userId}`);
+        this.idleTimer = null;
+        await this.onExpire(this);
+    }
+}
+
+class WalletSessionManager {
+    private sessions: Map<string, WalletSession> = new Map();
+
+    get(userId: string): WalletSession | undefined {
+        return this.sessions.get(userId);
+    }
+
+    has(userId: string): boolean {
+        return this.sessions.has(userId);
+    }
+
+    getOrCreate(userId: string, channel: DMChannel | TextBasedChannel): WalletSession {
+        let session = this.sessions.get(userId);
+        if (!session) {
+            session = new WalletSession(userId, channel, async (expired) => {
+                await this.end(expired.userId);
+                await expired.channel.send('The wallet session has timed out due to inactivity and all private information has been erased. Please use the !wallet command to start a new session.')
+                    .catch(error => Logger.error(`Failed to send session timeout notice: ${error}`));
+            });
+            this.sessions.set(userId, session);
+        }
+        return session;
+    }
+
+    setState(userId: string, state: WalletState): void {
+        const session = this.sessions.get(userId);
+        if (session) {
+            session.state = state;
+            session.touch();
+        }
+    }
+
+    getState(userId: string): WalletState {
+        return this.sessions.get(userId)?.state ?? WalletState.IDLE;
+    }
+
+    async end(userId: string): Promise<void> {
+        const session = this.sessions.get(userId);
+        if (!session) {
+            userSettings.delete(userId);
+            return;
+        }
+        this.sessions.delete(userId);
+        await session.destroy();
+    }
+}
+
+export const walletSessions = new WalletSessionManager();
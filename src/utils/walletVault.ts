@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import path from 'path';
+import { promisify } from 'util';
+import { userSettings, Network, HdWalletState } from './userSettings';
+import { Logger } from './logger';
+import { AppError } from './errorHandler';
+import { createJsonStore } from './jsonStore';
+
+const scrypt = promisify(crypto.scrypt) as (password: crypto.BinaryLike, salt: crypto.BinaryLike, keylen: number, options: crypto.ScryptOptions) => Promise<Buffer>;
+
+const VAULT_PATH = process.env.VAULT_PATH || path.join('data', 'wallet_vault.json');
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// scrypt cost parameters; N=2^15 needs ~32 MB and a fraction of a second per unlock
+const KDF_PARAMS = { N: 32768, r: 8, p: 1 };
+const KEY_LENGTH = 32;
+
+interface VaultSecret {
+    privateKey: string;
+    hd?: HdWalletState;
+}
+
+interface VaultEntry {
+    version: 1;
+    network: Network;
+    address: string;
+    kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+    cipher: { name: 'aes-256-gcm'; iv: string; tag: string };
+    ciphertext: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+type VaultFile = Record<string, VaultEntry>;
+
+const vaultStore = createJsonStore<VaultFile>(VAULT_PATH, 'wallet vault', () => ({}));
+
+export function validatePassphrase(passphrase: string): void {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new AppError('Weak passphrase', `Your vault passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`, 'WEAK_PASSPHRASE');
+    }
+}
+
+async function encrypt(userId: string, secret: VaultSecret, passphrase: string): Promise<Pick<VaultEntry, 'kdf' | 'cipher' | 'ciphertext'>> {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const key = await scrypt(passphrase, salt, KEY_LENGTH, { ...KDF_PARAMS, maxmem: 64 * 1024 * 1024 });
+
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    // Binding the user ID means an entry copied to another user will not decrypt
+    cipher.setAAD(Buffer.from(userId));
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(secret), 'utf8'), cipher.final()]);
+
+    return {
+        kdf: { name: 'scrypt', salt: salt.toString('hex'), ...KDF_PARAMS },
+        cipher: { name: 'aes-256-gcm', iv: iv.toString('hex'), tag: cipher.getAuthTag().toString('hex') },
+        ciphertext: ciphertext.toString('hex')
+    };
+}
+
+async function decrypt(userId: string, entry: VaultEntry, passphrase: string): Promise<VaultSecret> {
+    const { salt, N, r, p } = entry.kdf;
+    const key = await scrypt(passphrase, Buffer.from(salt, 'hex'), KEY_LENGTH, { N, r, p, maxmem: 64 * 1024 * 1024 });
+
+    try {
+        const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(entry.cipher.iv, 'hex'));
+        decipher.setAAD(Buffer.from(userId));
+        decipher.setAuthTag(Buffer.from(entry.cipher.tag, 'hex'));
+        const plaintext = Buffer.concat([decipher.update(Buffer.from(entry.ciphertext, 'hex')), decipher.final()]);
+        return JSON.parse(plaintext.toString('utf8')) as VaultSecret;
+    } catch {
+        throw new AppError('Incorrect passphrase', 'That passphrase is incorrect. Please try again.', 'VAULT_WRONG_PASSPHRASE');
+    }
+}
+
+async function requireEntry(userId: string): Promise<VaultEntry> {
+    const entry = (await vaultStore.read())[userId];
+    if (!entry) {
+        throw new AppError('No vault', 'You do not have a saved wallet vault. Open a wallet and choose "Save to Vault" first.', 'VAULT_NOT_FOUND');
+    }
+    return entry;
+}
+
+export async function hasVault(userId: string): Promise<boolean> {
+    return Boolean((await vaultStore.read())[userId]);
+}
+
+export async function getVaultSummary(userId: string): Promise<{ network: Network; address: string } | undefined> {
+    const entry = (await vaultStore.read())[userId];
+    return entry ? { network: entry.network, address: entry.address } : undefined;
+}
+
+/**
+ * Encrypts the wallet currently loaded in the user's session. Replaces any
+ * existing vault entry for the user.
+ */
+export async function saveToVault(userId: string, passphrase: string): Promise<void> {
+    validatePassphrase(passphrase);
+
+    const userSession = userSettings.get(userId);
+    if (!userSession || !userSession.privateKey || !userSession.address) {
+        throw new AppError('Invalid Session', 'Open a wallet before saving it to your vault.', 'INVALID_SESSION');
+    }
+
+    const encrypted = await encrypt(userId, { privateKey: userSession.privateKey, hd: userSession.hd }, passphrase);
+    const now = Date.now();
+    await vaultStore.update(vault => {
+        vault[userId] = {
+            version: 1,
+            network: userSession.network,
+            address: userSession.address!,
+            ...encrypted,
+            createdAt: vault[userId]?.createdAt ?? now,
+            updatedAt: now
+        };
+    });
+    Logger.info(`Wallet vault saved for user: ${userId}`);
+}
+
+/**
+ * Decrypts the user's vault into their in-memory session. The key is only
+ * held there until the wallet session ends or times out.
+ */
+export async function unlockVault(userId: string, passphrase: string): Promise<{ network: Network; address: string }> {
+    const entry = await requireEntry(userId);
+    const secret = await decrypt(userId, entry, passphrase);
+
+    userSettings.set(userId, {
+        network: entry.network,
+        privateKey: secret.privateKey,
+        address: entry.address,
+        hd: secret.hd,
+        lastActivity: Date.now()
+    });
+    Logger.info(`Wallet vault unlocked for user: ${userId}`);
+    return { network: entry.network, address: entry.address };
+}
+
+export async function changeVaultPassphrase(userId: string, currentPassphrase: string, newPassphrase: string): Promise<void> {
+    validatePassphrase(newPassphrase);
+
+    const entry = await requireEntry(userId);
+    const secret = await decrypt(userId, entry, currentPassphrase);
+
+    const encrypted = await encrypt(userId, secret, newPassphrase);
+    await vaultStore.update(vault => {
+        vault[userId] = { ...entry, ...encrypted, updatedAt: Date.now() };
+    });
+    Logger.info(`Wallet vault passphrase changed for user: ${userId}`);
+}
+
+export async function deleteVault(userId: string, passphrase: string): Promise<void> {
+    const entry = await requireEntry(userId);
+    // Proving knowledge of the passphrase stops anyone with brief access to the account from wiping it
+    await decrypt(userId, entry, passphrase);
+
+    await vaultStore.update(vault => {
+        delete vault[userId];
+    });
+    Logger.info(`Wallet vault deleted for user: ${userId}`);
+}